@@ -0,0 +1,105 @@
+import type { CacheOptions } from './types';
+
+type CacheEntry<T> = {
+   value: T;
+   expiresAt: number;
+};
+
+const settings: Required<CacheOptions> = { enabled: false, ttl: 0, payloads: false };
+const keyCache = new Map<string, CacheEntry<Promise<CryptoKey>>>();
+const payloadCache = new Map<string, CacheEntry<string>>();
+
+/**
+ * Enable, disable or tune the in-memory cache used by `decrypt` and `loadSecrets`.
+ * Derived keys are cached once enabled; decrypted payloads are only cached when `payloads` is set.
+ *
+ * @param {CacheOptions} options - Cache settings. `ttl` is in milliseconds, 0 keeps entries until `clearCache()`
+ */
+function configureCache(options: CacheOptions) {
+   settings.enabled = options.enabled;
+   settings.ttl = options.ttl ?? 0;
+   settings.payloads = options.payloads ?? false;
+
+   if (!settings.enabled) {
+      clearCache();
+   }
+}
+
+/**
+ * Drop every cached key and payload
+ */
+function clearCache() {
+   keyCache.clear();
+   payloadCache.clear();
+}
+
+function expiry() {
+   return settings.ttl > 0 ? Date.now() + settings.ttl : Number.POSITIVE_INFINITY;
+}
+
+function read<T>(cache: Map<string, CacheEntry<T>>, id: string): T | undefined {
+   const entry = cache.get(id);
+   if (!entry) {
+      return undefined;
+   }
+
+   if (entry.expiresAt <= Date.now()) {
+      cache.delete(id);
+      return undefined;
+   }
+
+   return entry.value;
+}
+
+/**
+ * Return a cached key for the given derivation parameters, creating it when missing.
+ * Failed derivations are evicted so a later call can retry.
+ *
+ * @param {string} id - Identifies the master key and derivation parameters
+ * @param {() => Promise<CryptoKey>} create - Derives or imports the key
+ * @returns {Promise<CryptoKey>}
+ */
+function cachedKey(id: string, create: () => Promise<CryptoKey>): Promise<CryptoKey> {
+   if (!settings.enabled) {
+      return create();
+   }
+
+   const cached = read(keyCache, id);
+   if (cached) {
+      return cached;
+   }
+
+   const key = create();
+   keyCache.set(id, { value: key, expiresAt: expiry() });
+   key.catch(() => keyCache.delete(id));
+
+   return key;
+}
+
+/**
+ * Look up a previously decrypted payload
+ *
+ * @param {string} id - Identifies the cipher text and the keys it was decrypted with
+ * @returns {string | undefined}
+ */
+function cachedPayload(id: string): string | undefined {
+   if (!settings.enabled || !settings.payloads) {
+      return undefined;
+   }
+
+   return read(payloadCache, id);
+}
+
+/**
+ * Remember a decrypted payload when payload caching is enabled
+ *
+ * @param {string} id - Identifies the cipher text and the keys it was decrypted with
+ * @param {string} plaintext - The decrypted payload
+ */
+function storePayload(id: string, plaintext: string) {
+   if (settings.enabled && settings.payloads) {
+      payloadCache.set(id, { value: plaintext, expiresAt: expiry() });
+   }
+}
+
+export { configureCache, clearCache, cachedKey, cachedPayload, storePayload };
@@ -0,0 +1,155 @@
+import type { Compression } from './types';
+import { concatUint8Arrays } from './utils';
+
+const ALGORITHM = 'AES-GCM';
+const AES_TAG_BYTES = 16;
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const SUPPORTED_COMPRESSIONS: Compression[] = ['gzip', 'deflate'];
+
+/**
+ * Derive the IV for a chunk by XORing its index into the last four bytes of the envelope IV
+ *
+ * @param {Uint8Array} iv - The envelope IV
+ * @param {number} index - The chunk index
+ * @returns {Uint8Array}
+ */
+function chunkIv(iv: Uint8Array, index: number): Uint8Array {
+   const derived = iv.slice();
+   const view = new DataView(derived.buffer);
+   const offset = derived.length - 4;
+   view.setUint32(offset, (view.getUint32(offset) ^ index) >>> 0);
+
+   return derived;
+}
+
+/**
+ * Bind a chunk's position, and whether it is the last one, to the envelope's additional authenticated data,
+ * so chunks can't be reordered, dropped or truncated without decryption failing
+ *
+ * @param {Uint8Array} additionalData - The encoded envelope header
+ * @param {number} index - The chunk index
+ * @param {boolean} final - Whether this is the last chunk
+ * @returns {Uint8Array}
+ */
+function chunkAdditionalData(additionalData: Uint8Array, index: number, final: boolean): Uint8Array {
+   return concatUint8Arrays([additionalData, new TextEncoder().encode(`:${index}:${final ? 1 : 0}`)]);
+}
+
+/**
+ * Encrypt data as a sequence of independently authenticated AES-GCM chunks of {chunkSize} bytes
+ *
+ * @param {CryptoKey} key - The AES-GCM key
+ * @param {Uint8Array} iv - The envelope IV
+ * @param {Uint8Array} additionalData - The encoded envelope header
+ * @param {Uint8Array} data - The data to encrypt
+ * @param {number} chunkSize - Plaintext bytes per chunk
+ * @returns {Promise<Uint8Array>} - The encrypted chunks, each followed by its authentication tag
+ */
+async function encryptChunks(
+   key: CryptoKey,
+   iv: Uint8Array,
+   additionalData: Uint8Array,
+   data: Uint8Array,
+   chunkSize: number,
+): Promise<Uint8Array> {
+   const count = Math.max(1, Math.ceil(data.length / chunkSize));
+   const chunks: Uint8Array[] = [];
+
+   for (let index = 0; index < count; index++) {
+      const encrypted = await crypto.subtle.encrypt(
+         {
+            name: ALGORITHM,
+            iv: chunkIv(iv, index),
+            additionalData: chunkAdditionalData(additionalData, index, index === count - 1),
+         },
+         key,
+         data.subarray(index * chunkSize, (index + 1) * chunkSize),
+      );
+      chunks.push(new Uint8Array(encrypted));
+   }
+
+   return concatUint8Arrays(chunks);
+}
+
+/**
+ * Decrypt data written by `encryptChunks`
+ *
+ * @param {CryptoKey} key - The AES-GCM key
+ * @param {Uint8Array} iv - The envelope IV
+ * @param {Uint8Array} additionalData - The encoded envelope header
+ * @param {Uint8Array} data - The encrypted chunks
+ * @param {number} chunkSize - Plaintext bytes per chunk
+ * @returns {Promise<Uint8Array>} - The decrypted data
+ */
+async function decryptChunks(
+   key: CryptoKey,
+   iv: Uint8Array,
+   additionalData: Uint8Array,
+   data: Uint8Array,
+   chunkSize: number,
+): Promise<Uint8Array> {
+   const encryptedChunkSize = chunkSize + AES_TAG_BYTES;
+   const count = Math.max(1, Math.ceil(data.length / encryptedChunkSize));
+   const chunks: Uint8Array[] = [];
+
+   for (let index = 0; index < count; index++) {
+      const decrypted = await crypto.subtle.decrypt(
+         {
+            name: ALGORITHM,
+            iv: chunkIv(iv, index),
+            additionalData: chunkAdditionalData(additionalData, index, index === count - 1),
+         },
+         key,
+         data.subarray(index * encryptedChunkSize, (index + 1) * encryptedChunkSize),
+      );
+      chunks.push(new Uint8Array(decrypted));
+   }
+
+   return concatUint8Arrays(chunks);
+}
+
+/**
+ * Check that a compression format is supported by this package and the runtime
+ *
+ * @param {string} compression - The compression format
+ * @returns {Compression}
+ */
+function assertCompression(compression: string): Compression {
+   if (!SUPPORTED_COMPRESSIONS.includes(compression as Compression)) {
+      throw new Error(`Unsupported compression: ${compression}. Expected one of ${SUPPORTED_COMPRESSIONS.join(', ')}`);
+   }
+   if (typeof CompressionStream === 'undefined') {
+      throw new Error('Compression requires CompressionStream, which is not available in this runtime');
+   }
+
+   return compression as Compression;
+}
+
+async function pipe(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+   const stream = new Blob([data]).stream().pipeThrough(transform);
+   return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Compress data with `CompressionStream`
+ *
+ * @param {Uint8Array} data - The data to compress
+ * @param {Compression} compression - `gzip` or `deflate`
+ * @returns {Promise<Uint8Array>}
+ */
+async function compress(data: Uint8Array, compression: Compression): Promise<Uint8Array> {
+   return pipe(data, new CompressionStream(assertCompression(compression)));
+}
+
+/**
+ * Decompress data with `DecompressionStream`
+ *
+ * @param {Uint8Array} data - The compressed data
+ * @param {Compression} compression - `gzip` or `deflate`
+ * @returns {Promise<Uint8Array>}
+ */
+async function decompress(data: Uint8Array, compression: Compression): Promise<Uint8Array> {
+   return pipe(data, new DecompressionStream(assertCompression(compression)));
+}
+
+export { DEFAULT_CHUNK_SIZE, SUPPORTED_COMPRESSIONS, compress, decompress, decryptChunks, encryptChunks };
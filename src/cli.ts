@@ -0,0 +1,399 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as doppler from './providers/doppler';
+import { fetchFromProviders } from './providers/registry';
+import * as secrets from './secrets';
+import * as secretsFiles from './secrets-files';
+import type { Compression, ModuleFormat, RecipientAlgorithm, SecretsSchema } from './types';
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_SIGNAL_BASE = 128;
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+const USAGE = `Usage: gitops-secrets <command> [options]
+
+Commands:
+  build                Fetch secrets and write an encrypted JS module
+  encrypt              Fetch secrets and write an encrypted JSON file
+  decrypt              Decrypt an encrypted JSON file and list its keys
+  run -- <cmd> [...]   Decrypt an encrypted JSON file into the environment of <cmd>
+  keygen               Print a random 256-bit master key for GITOPS_SECRETS_KEY_MODE=raw, or a recipient key pair
+  rotate               Re-encrypt an encrypted JSON file under the current master key
+  inspect              Print the envelope metadata of an encrypted JSON file or JS module without decrypting it
+  verify               Check that an encrypted JSON file or JS module decrypts and contains the required keys
+  diff                 List the keys added, removed or changed between two encrypted files, without values
+
+Options:
+  --path <file>              Output path (build, encrypt) or input path (decrypt, run, rotate, inspect, verify, diff)
+  --against <file>           Earlier encrypted file to compare --path with (diff)
+  --format <format>          Module format: esm, cjs, ts, json or dual (default: from the --path extension) (build)
+  --import-specifier <name>  Module the generated code imports the runtime from (build)
+  --cipher-text-only         Only export CIPHER_TEXT from the generated JS module (build)
+  --declarations             Also write a .d.ts declaring the generated module and secret key names (build)
+  --interpolate              Resolve \${KEY} and \${KEY:-default} references before encrypting (build, encrypt)
+  --metadata                 Record the commit and key names in the authenticated envelope header (build, encrypt)
+  --compression <format>     Compress the payload with gzip or deflate before encrypting (build, encrypt)
+  --structured               Keep key names readable and encrypt each value separately (encrypt)
+  --recipient <file>         PEM public key to encrypt for instead of the master key (build, encrypt, repeatable)
+  --key-pair <algorithm>     Print a recipient key pair: X25519, ECDH-P256 or RSA-OAEP-256 (keygen)
+  --input <file>             Read the plaintext payload from a JSON file instead of a provider (build, encrypt)
+  --provider <name>          Registered secrets provider to fetch from (default: doppler)
+  --option <key=value>       Option passed to a non-Doppler provider, e.g. --option vaultPath=my-app (repeatable)
+  --doppler-token <token>    Doppler token (default: DOPPLER_TOKEN). Prefer the variable: arguments show up in
+                             process listings and shell history
+  --doppler-project <name>   Doppler project
+  --doppler-config <name>    Doppler config
+  --require <keys>           Comma-separated keys that must be present (verify)
+  --schema <file>            JSON schema in the built-in format the secrets must satisfy (build, encrypt, verify)
+  --show-values              Print decrypted values instead of only key names (decrypt)
+  -h, --help                 Show this message`;
+
+type CliIO = {
+   stdout: (message: string) => void;
+   stderr: (message: string) => void;
+};
+
+type CliOptions = {
+   path?: string;
+   against?: string;
+   'cipher-text-only'?: boolean;
+   format?: string;
+   'import-specifier'?: string;
+   declarations?: boolean;
+   interpolate?: boolean;
+   metadata?: boolean;
+   compression?: string;
+   recipient?: string[];
+   structured?: boolean;
+   'key-pair'?: string;
+   input?: string;
+   provider?: string;
+   option?: string[];
+   'doppler-token'?: string;
+   'doppler-project'?: string;
+   'doppler-config'?: string;
+   require?: string;
+   schema?: string;
+   'show-values'?: boolean;
+   help?: boolean;
+};
+
+class UsageError extends Error {}
+
+const defaultIO: CliIO = {
+   stdout: (message) => process.stdout.write(`${message}\n`),
+   stderr: (message) => process.stderr.write(`${message}\n`),
+};
+
+/**
+ * Resolve the plaintext payload either from a local JSON file or from the configured provider.
+ *
+ * @param {CliOptions} options - Parsed command-line options
+ * @returns {Promise<Record<string, any>>} - The payload to encrypt
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Payloads are arbitrary JSON
+async function resolvePayload(options: CliOptions): Promise<Record<string, any>> {
+   if (options.input) {
+      const inputPath = path.resolve(options.input);
+      try {
+         return JSON.parse(fs.readFileSync(inputPath, { encoding: 'utf-8' }));
+      } catch (error) {
+         throw new Error(`Failed to read input file ${inputPath}: ${error}`);
+      }
+   }
+
+   const provider = options.provider || 'doppler';
+   if (provider === 'doppler') {
+      return doppler.fetchSecrets({
+         dopplerToken: options['doppler-token'] || process.env.DOPPLER_TOKEN,
+         dopplerProject: options['doppler-project'] || null,
+         dopplerConfig: options['doppler-config'] || null,
+      });
+   }
+
+   const providerOptions: Record<string, string> = {};
+   for (const option of options.option || []) {
+      const separator = option.indexOf('=');
+      if (separator < 1) {
+         throw new UsageError(`Provider options must be in the form key=value, got '${option}'`);
+      }
+      providerOptions[option.substring(0, separator)] = option.substring(separator + 1);
+   }
+
+   return fetchFromProviders([{ provider, options: providerOptions }]);
+}
+
+/**
+ * Read a built-in format schema from a JSON file
+ *
+ * @param {string | undefined} schemaPath - Path to the schema file
+ * @returns {SecretsSchema | undefined}
+ */
+function readSchema(schemaPath: string | undefined): SecretsSchema | undefined {
+   if (!schemaPath) {
+      return undefined;
+   }
+
+   const resolvedPath = path.resolve(schemaPath);
+   try {
+      return JSON.parse(fs.readFileSync(resolvedPath, { encoding: 'utf-8' }));
+   } catch (error) {
+      throw new Error(`Failed to read schema file ${resolvedPath}: ${error}`);
+   }
+}
+
+/**
+ * Read recipient public keys from PEM files
+ *
+ * @param {string[] | undefined} recipientPaths - Paths to the public keys
+ * @returns {string[] | undefined}
+ */
+function readRecipients(recipientPaths: string[] | undefined): string[] | undefined {
+   if (!recipientPaths || recipientPaths.length === 0) {
+      return undefined;
+   }
+
+   return recipientPaths.map((recipientPath) => {
+      const resolvedPath = path.resolve(recipientPath);
+      try {
+         return fs.readFileSync(resolvedPath, { encoding: 'utf-8' });
+      } catch (error) {
+         throw new Error(`Failed to read recipient key ${resolvedPath}: ${error}`);
+      }
+   });
+}
+
+/**
+ * Decrypt a JSON file written by `encryptToFile` into a plain payload object.
+ *
+ * @param {string | undefined} filePath - Path to the encrypted file
+ * @returns {Promise<Record<string, any>>} - The decrypted payload
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Payloads are arbitrary JSON
+async function readPayload(filePath: string | undefined): Promise<Record<string, any>> {
+   const { mergeSecrets, ...payload } = await secretsFiles.decryptFromFile(filePath);
+   return payload;
+}
+
+/**
+ * Spawn a child process with the decrypted secrets merged into its environment.
+ * SIGINT and SIGTERM are forwarded to the child while it runs.
+ *
+ * @param {string[]} command - The command and its arguments
+ * @param {Record<string, any>} payload - The decrypted secrets
+ * @returns {Promise<number>} - The child's exit code, or 128 plus the signal number when a signal ended it
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Payloads are arbitrary JSON
+function runCommand(command: string[], payload: Record<string, any>): Promise<number> {
+   const env: NodeJS.ProcessEnv = { ...process.env };
+   for (const [key, value] of Object.entries(payload)) {
+      env[key] = typeof value === 'string' ? value : JSON.stringify(value);
+   }
+
+   return new Promise((resolve, reject) => {
+      const child = spawn(command[0], command.slice(1), { env, stdio: 'inherit' });
+      const forward = (signal: NodeJS.Signals) => child.kill(signal);
+      const stopForwarding = () => {
+         for (const signal of FORWARDED_SIGNALS) {
+            process.off(signal, forward);
+         }
+      };
+      for (const signal of FORWARDED_SIGNALS) {
+         process.on(signal, forward);
+      }
+
+      child.on('error', (error) => {
+         stopForwarding();
+         reject(new Error(`Failed to start ${command[0]}: ${error.message}`));
+      });
+      child.on('exit', (code, signal) => {
+         stopForwarding();
+         resolve(signal ? EXIT_SIGNAL_BASE + os.constants.signals[signal] : (code ?? EXIT_FAILURE));
+      });
+   });
+}
+
+/**
+ * Run the gitops-secrets CLI.
+ *
+ * @param {string[]} argv - Arguments without the node executable and script path
+ * @param {CliIO} [io=defaultIO] - Output writers
+ * @returns {Promise<number>} - The process exit code
+ */
+async function run(argv: string[], io: CliIO = defaultIO): Promise<number> {
+   const separator = argv.indexOf('--');
+   const args = separator === -1 ? argv : argv.slice(0, separator);
+   const command = separator === -1 ? [] : argv.slice(separator + 1);
+
+   let options: CliOptions;
+   let positionals: string[];
+   try {
+      const parsed = parseArgs({
+         args,
+         allowPositionals: true,
+         options: {
+            path: { type: 'string' },
+            against: { type: 'string' },
+            'cipher-text-only': { type: 'boolean' },
+            format: { type: 'string' },
+            'import-specifier': { type: 'string' },
+            declarations: { type: 'boolean' },
+            interpolate: { type: 'boolean' },
+            metadata: { type: 'boolean' },
+            compression: { type: 'string' },
+            recipient: { type: 'string', multiple: true },
+            structured: { type: 'boolean' },
+            'key-pair': { type: 'string' },
+            input: { type: 'string' },
+            provider: { type: 'string' },
+            option: { type: 'string', multiple: true },
+            'doppler-token': { type: 'string' },
+            'doppler-project': { type: 'string' },
+            'doppler-config': { type: 'string' },
+            require: { type: 'string' },
+            schema: { type: 'string' },
+            'show-values': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+         },
+      });
+      options = parsed.values;
+      positionals = parsed.positionals;
+   } catch (error) {
+      io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+      return EXIT_USAGE;
+   }
+
+   const [subcommand, ...rest] = positionals;
+   if (options.help || !subcommand) {
+      io.stdout(USAGE);
+      return options.help ? EXIT_SUCCESS : EXIT_USAGE;
+   }
+
+   if (rest.length > 0) {
+      io.stderr(`Unexpected arguments: ${rest.join(' ')}\n\n${USAGE}`);
+      return EXIT_USAGE;
+   }
+
+   try {
+      switch (subcommand) {
+         case 'build': {
+            const payload = await resolvePayload(options);
+            const changed = await secretsFiles.build(payload, {
+               path: options.path || null,
+               cipherTextOnly: Boolean(options['cipher-text-only']),
+               format: options.format as ModuleFormat | undefined,
+               importSpecifier: options['import-specifier'],
+               declarations: Boolean(options.declarations),
+               interpolate: options.interpolate,
+               metadata: options.metadata,
+               compression: options.compression as Compression | undefined,
+               recipients: readRecipients(options.recipient),
+               schema: readSchema(options.schema),
+            });
+            io.stdout(
+               changed === false
+                  ? 'Secrets unchanged, kept the existing JS module'
+                  : `Encrypted ${Object.keys(payload).length} secrets to JS module`,
+            );
+            return EXIT_SUCCESS;
+         }
+         case 'encrypt': {
+            const payload = await resolvePayload(options);
+            const changed = await secretsFiles.encryptToFile(payload, {
+               path: options.path || null,
+               schema: readSchema(options.schema),
+               interpolate: options.interpolate,
+               metadata: options.metadata,
+               compression: options.compression as Compression | undefined,
+               recipients: readRecipients(options.recipient),
+               structured: options.structured,
+            });
+            io.stdout(
+               changed === false
+                  ? 'Secrets unchanged, kept the existing JSON file'
+                  : `Encrypted ${Object.keys(payload).length} secrets to JSON file`,
+            );
+            return EXIT_SUCCESS;
+         }
+         case 'decrypt': {
+            const payload = await readPayload(options.path);
+            io.stdout(options['show-values'] ? JSON.stringify(payload, null, 2) : Object.keys(payload).join('\n'));
+            return EXIT_SUCCESS;
+         }
+         case 'run': {
+            if (command.length === 0) {
+               throw new UsageError('The run command requires a command after --');
+            }
+            const payload = await readPayload(options.path);
+            return await runCommand(command, payload);
+         }
+         case 'keygen': {
+            if (options['key-pair']) {
+               const { publicKey, privateKey } = await secrets.generateRecipientKeyPair(
+                  options['key-pair'] as RecipientAlgorithm,
+               );
+               io.stdout(`${publicKey}\n${privateKey}`);
+               return EXIT_SUCCESS;
+            }
+            io.stdout(secrets.generateMasterKey());
+            return EXIT_SUCCESS;
+         }
+         case 'rotate': {
+            await secretsFiles.reencryptFile(options.path);
+            io.stdout('Re-encrypted secrets under the current master key');
+            return EXIT_SUCCESS;
+         }
+         case 'inspect': {
+            io.stdout(JSON.stringify(secretsFiles.inspectFile(options.path), null, 2));
+            return EXIT_SUCCESS;
+         }
+         case 'verify': {
+            const required = (options.require || '')
+               .split(',')
+               .map((key) => key.trim())
+               .filter(Boolean);
+            const result = await secretsFiles.verifyFile(options.path, {
+               require: required,
+               schema: readSchema(options.schema),
+            });
+            if (!result.valid) {
+               io.stderr(result.errors.join('\n'));
+               return EXIT_FAILURE;
+            }
+            io.stdout(`Verified ${result.keys.length} secrets`);
+            return EXIT_SUCCESS;
+         }
+         case 'diff': {
+            if (!options.path || !options.against) {
+               throw new UsageError('The diff command requires --path and --against');
+            }
+            const { added, removed, changed } = await secretsFiles.diffFiles(options.against, options.path);
+            const lines = [
+               ...added.map((key) => `+ ${key}`),
+               ...removed.map((key) => `- ${key}`),
+               ...changed.map((key) => `~ ${key}`),
+            ];
+            io.stdout(lines.length > 0 ? lines.join('\n') : 'No changes');
+            return EXIT_SUCCESS;
+         }
+         default:
+            throw new UsageError(`Unknown command: ${subcommand}`);
+      }
+   } catch (error) {
+      if (error instanceof UsageError) {
+         io.stderr(`${error.message}\n\n${USAGE}`);
+         return EXIT_USAGE;
+      }
+      io.stderr(error instanceof Error ? error.message : String(error));
+      return EXIT_FAILURE;
+   }
+}
+
+export { run };
+export type { CliIO };
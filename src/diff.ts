@@ -0,0 +1,91 @@
+import type { SecretsDiff } from './types';
+import { uint8ArrayToHex } from './utils';
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level, so payloads that only differ in key order
+ * serialize the same
+ *
+ * @param {unknown} value - A JSON-serializable value
+ * @returns {string}
+ */
+function canonicalJson(value: unknown): string {
+   if (Array.isArray(value)) {
+      return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+   }
+   if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value)
+         .filter(([, item]) => item !== undefined)
+         .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+   }
+
+   return JSON.stringify(value);
+}
+
+/**
+ * Canonical form of decrypted data: canonical JSON when it parses as JSON, otherwise the text itself
+ *
+ * @param {string} plaintext - Decrypted data
+ * @returns {string}
+ */
+function canonicalPlaintext(plaintext: string): string {
+   try {
+      return canonicalJson(JSON.parse(plaintext));
+   } catch {
+      return plaintext;
+   }
+}
+
+/**
+ * SHA-256 of the canonical form of decrypted data, independent of key order and of how it was encrypted
+ *
+ * @param {string} plaintext - Decrypted data
+ * @returns {Promise<string>} - Hex encoded hash
+ */
+async function hashPlaintext(plaintext: string): Promise<string> {
+   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalPlaintext(plaintext)));
+
+   return uint8ArrayToHex(new Uint8Array(digest));
+}
+
+/**
+ * Parse decrypted data as a JSON object of secrets
+ *
+ * @param {string} plaintext - Decrypted data
+ * @returns {Record<string, unknown>}
+ */
+function parsePayload(plaintext: string): Record<string, unknown> {
+   const payload = JSON.parse(plaintext);
+   if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new Error('Decrypted payload is not a JSON object');
+   }
+
+   return payload;
+}
+
+/**
+ * Compare two payloads by key name. Values are compared in canonical form and never returned.
+ *
+ * @param {Record<string, unknown>} previous - The old payload
+ * @param {Record<string, unknown>} current - The new payload
+ * @returns {SecretsDiff}
+ */
+function diffPayloads(previous: Record<string, unknown>, current: Record<string, unknown>): SecretsDiff {
+   const has = (payload: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(payload, key);
+   const result: SecretsDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+   for (const key of Object.keys(current)) {
+      if (!has(previous, key)) {
+         result.added.push(key);
+      } else if (canonicalJson(previous[key]) === canonicalJson(current[key])) {
+         result.unchanged.push(key);
+      } else {
+         result.changed.push(key);
+      }
+   }
+   result.removed = Object.keys(previous).filter((key) => !has(current, key));
+
+   return result;
+}
+
+export { canonicalPlaintext, diffPayloads, hashPlaintext, parsePayload };
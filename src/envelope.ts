@@ -0,0 +1,109 @@
+import { SUPPORTED_COMPRESSIONS } from './chunks';
+import { SUPPORTED_RECIPIENT_ALGORITHMS } from './recipients';
+import type { EnvelopeHeader } from './types';
+import { base64ToUint8Array, uint8ArrayToBase64 } from './utils';
+
+const ENVELOPE_PREFIX = 'gs2';
+const ENVELOPE_VERSION = 2;
+// `recipients` envelopes use a random data key wrapped for each recipient instead of a derived key
+const SUPPORTED_KDFS = ['PBKDF2', 'none', 'recipients'];
+const SUPPORTED_HASHES = ['SHA-256', 'SHA-384', 'SHA-512'];
+const SUPPORTED_CIPHERS = ['AES-GCM'];
+
+type ParsedEnvelope = {
+   header: EnvelopeHeader;
+   /** The encoded header exactly as it appears in the cipher text, used as additional authenticated data */
+   encodedHeader: string;
+   data: Uint8Array;
+};
+
+/**
+ * Check whether a cipher text uses the versioned envelope rather than the legacy colon-separated format
+ *
+ * @param {string} ciphertext - The cipher text to check
+ * @returns {boolean}
+ */
+function isEnvelope(ciphertext: string): boolean {
+   return ciphertext.startsWith(`${ENVELOPE_PREFIX}:`);
+}
+
+/**
+ * Encode an envelope header so it can be embedded in the cipher text and bound as additional authenticated data
+ *
+ * @param {EnvelopeHeader} header - The envelope header
+ * @returns {string} - Base64 encoded JSON header
+ */
+function encodeHeader(header: EnvelopeHeader): string {
+   return uint8ArrayToBase64(new TextEncoder().encode(JSON.stringify(header)));
+}
+
+/**
+ * Serialize an encoded header and encrypted data to the envelope format
+ *
+ * @param {string} encodedHeader - The header returned by `encodeHeader`
+ * @param {Uint8Array} data - The encrypted data
+ * @returns {string} - Cipher text in format "gs2:header:encryptedData"
+ */
+function serializeEnvelope(encodedHeader: string, data: Uint8Array): string {
+   return `${ENVELOPE_PREFIX}:${encodedHeader}:${uint8ArrayToBase64(data)}`;
+}
+
+/**
+ * Parse and validate a versioned envelope. Unknown header fields are ignored so newer metadata stays readable.
+ *
+ * @param {string} ciphertext - Cipher text in format "gs2:header:encryptedData"
+ * @returns {ParsedEnvelope} - The decoded header and encrypted data
+ */
+function parseEnvelope(ciphertext: string): ParsedEnvelope {
+   const parts = ciphertext.substring(`${ENVELOPE_PREFIX}:`.length).split(':');
+   if (parts.length !== 2) {
+      throw new Error(`Encrypted payload invalid. Expected 2 envelope sections but got ${parts.length}`);
+   }
+
+   let header: EnvelopeHeader;
+   try {
+      header = JSON.parse(new TextDecoder().decode(base64ToUint8Array(parts[0])));
+   } catch (error) {
+      throw new Error(`Encrypted payload invalid. Envelope header could not be parsed: ${error}`);
+   }
+
+   if (header.version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version: ${header.version}`);
+   }
+
+   if (!SUPPORTED_KDFS.includes(header.kdf)) {
+      throw new Error(`Unsupported key derivation function: ${header.kdf}`);
+   }
+
+   if (header.kdf === 'PBKDF2' && !SUPPORTED_HASHES.includes(header.hash as string)) {
+      throw new Error(`Unsupported hash: ${header.hash}`);
+   }
+
+   if (header.kdf === 'recipients') {
+      if (!Array.isArray(header.recipients) || header.recipients.length === 0) {
+         throw new Error('Encrypted payload invalid. Envelope has no recipients');
+      }
+      for (const recipient of header.recipients) {
+         if (!SUPPORTED_RECIPIENT_ALGORITHMS.includes(recipient?.algorithm)) {
+            throw new Error(`Unsupported recipient algorithm: ${recipient?.algorithm}`);
+         }
+      }
+   }
+
+   if (!SUPPORTED_CIPHERS.includes(header.cipher)) {
+      throw new Error(`Unsupported cipher: ${header.cipher}`);
+   }
+
+   if (header.compression !== undefined && !SUPPORTED_COMPRESSIONS.includes(header.compression)) {
+      throw new Error(`Unsupported compression: ${header.compression}`);
+   }
+
+   if (header.chunkSize !== undefined && !(Number.isInteger(header.chunkSize) && header.chunkSize > 0)) {
+      throw new Error(`Invalid chunk size: ${header.chunkSize}`);
+   }
+
+   return { header, encodedHeader: parts[0], data: base64ToUint8Array(parts[1]) };
+}
+
+export { ENVELOPE_VERSION, isEnvelope, encodeHeader, serializeEnvelope, parseEnvelope };
+export type { ParsedEnvelope };
@@ -0,0 +1,72 @@
+import type { SecretsBundles } from './types';
+import { readEnv } from './utils';
+
+const DEFAULT_KEY_PREFIX = 'GITOPS_SECRETS';
+const ENVIRONMENT_VARIABLES = ['GITOPS_SECRETS_ENV', 'VERCEL_ENV', 'NODE_ENV'];
+const ENVIRONMENT_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Check that an environment name can be used as a bundle name and in key variable names
+ *
+ * @param {string} environment - The environment name
+ * @returns {string} - The environment name
+ */
+function assertEnvironmentName(environment: string): string {
+   if (!ENVIRONMENT_NAME_PATTERN.test(environment)) {
+      throw new Error(`Environment names may only contain letters, digits, '.', '_' and '-', got '${environment}'`);
+   }
+
+   return environment;
+}
+
+/**
+ * Pick the environment to load, preferring an explicit name over `GITOPS_SECRETS_ENV`, `VERCEL_ENV` and `NODE_ENV`
+ *
+ * @param {string} [environment] - Explicit environment name
+ * @returns {string} - The environment name
+ */
+function resolveEnvironment(environment?: string): string {
+   const resolved = environment || ENVIRONMENT_VARIABLES.map((variable) => readEnv(variable)).find(Boolean);
+   if (!resolved) {
+      throw new Error(`No environment given. Pass {environment} or set one of ${ENVIRONMENT_VARIABLES.join(', ')}`);
+   }
+
+   return assertEnvironmentName(resolved);
+}
+
+/**
+ * Prefix of the master key variables for an environment.
+ * `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` is used when set, otherwise the shared `GITOPS_SECRETS_MASTER_KEY`.
+ *
+ * @param {string} [environment] - The environment name
+ * @returns {string} - e.g. `GITOPS_SECRETS_PRODUCTION`
+ */
+function keyVariablePrefix(environment?: string): string {
+   if (!environment) {
+      return DEFAULT_KEY_PREFIX;
+   }
+
+   const prefix = `${DEFAULT_KEY_PREFIX}_${assertEnvironmentName(environment)
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, '_')}`;
+   return process.env[`${prefix}_MASTER_KEY`] ? prefix : DEFAULT_KEY_PREFIX;
+}
+
+/**
+ * Select the cipher text for an environment from a map of bundles
+ *
+ * @param {SecretsBundles} bundles - Cipher text per environment
+ * @param {string} environment - The environment name
+ * @returns {string} - The environment's cipher text
+ */
+function selectBundle(bundles: SecretsBundles, environment: string): string {
+   if (!Object.prototype.hasOwnProperty.call(bundles, environment)) {
+      throw new Error(
+         `No secrets bundle for environment '${environment}'. Available: ${Object.keys(bundles).join(', ') || 'none'}`,
+      );
+   }
+
+   return bundles[environment];
+}
+
+export { assertEnvironmentName, keyVariablePrefix, resolveEnvironment, selectBundle };
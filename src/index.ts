@@ -1,8 +1,51 @@
+import * as awsSecretsManager from './providers/aws-secrets-manager';
 import * as doppler from './providers/doppler';
+import * as dotenv from './providers/dotenv';
+import * as infisical from './providers/infisical';
+import * as jsonFile from './providers/json-file';
+import * as onePassword from './providers/one-password';
+import { fetchFromProviders, fromProvider, registerProvider } from './providers/registry';
+import * as vault from './providers/vault';
+import * as yamlFile from './providers/yaml-file';
+import { createRefreshingStore, watchSecrets } from './refresh';
 import * as secrets from './secrets';
 import * as secretsFiles from './secrets-files';
 
-export const providers = { doppler };
+export const providers = {
+   doppler,
+   vault,
+   awsSecretsManager,
+   onePassword,
+   infisical,
+   dotenv,
+   jsonFile,
+   yamlFile,
+};
+export { createRefreshingStore, fetchFromProviders, fromProvider, registerProvider, watchSecrets };
+export type {
+   BuildMetadata,
+   CipherTextInfo,
+   Compression,
+   FallbackCache,
+   InferSecrets,
+   LoadSecretsOptions,
+   MergeDiff,
+   MergeOptions,
+   ProviderInput,
+   ProviderSpec,
+   RecipientAlgorithm,
+   RecipientKey,
+   RefreshOptions,
+   RefreshingStore,
+   SecretProvider,
+   SecretsDiff,
+   SecretsSchema,
+   SecretsStore,
+   StandardSchemaV1,
+   VerifyOptions,
+   VerifyResult,
+   WatchSecretsOptions,
+} from './types';
 
 export * as secrets from './secrets';
 export * as secretsFiles from './secrets-files';
@@ -0,0 +1,101 @@
+import type { EnvObject, InterpolateOptions } from './types';
+
+// `\${` escapes a literal `${`; otherwise `${KEY}` or `${KEY:-default}`
+const REFERENCE_PATTERN = /\\\$\{|\$\{([A-Za-z_][A-Za-z0-9_.-]*)(?::-([^}]*))?\}/g;
+
+function hasOwn(object: object, key: string): boolean {
+   return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function toText(value: unknown): string | undefined {
+   if (value === undefined || value === null) {
+      return undefined;
+   }
+
+   return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function defaultEnv(): EnvObject {
+   return typeof process !== 'undefined' && process.env ? process.env : {};
+}
+
+/**
+ * Resolve `${KEY}` and `${KEY:-default}` references in string values.
+ * References are looked up in the payload first, then in {options.env} (`process.env` by default).
+ * The default is used when the reference is unset or empty. Non-string values are left untouched.
+ *
+ * @param {Record<string, unknown>} payload - The secrets
+ * @param {InterpolateOptions} [options]
+ * @returns {Record<string, unknown>} - A copy of the payload with references resolved
+ */
+function interpolateSecrets(
+   payload: Record<string, unknown>,
+   options: InterpolateOptions = {},
+): Record<string, unknown> {
+   const env = options.env || defaultEnv();
+   const resolved: Record<string, unknown> = {};
+   const resolving: string[] = [];
+
+   const resolveKey = (key: string): unknown => {
+      if (hasOwn(resolved, key)) {
+         return resolved[key];
+      }
+
+      const value = payload[key];
+      if (typeof value !== 'string') {
+         resolved[key] = value;
+         return value;
+      }
+
+      if (resolving.includes(key)) {
+         const cycle = [...resolving.slice(resolving.indexOf(key)), key];
+         throw new Error(`Interpolation failed: Circular reference ${cycle.join(' -> ')}`);
+      }
+
+      resolving.push(key);
+      const result = value.replace(REFERENCE_PATTERN, (_match, name: string | undefined, fallback?: string) => {
+         if (name === undefined) {
+            return '${';
+         }
+
+         const replacement = toText(hasOwn(payload, name) ? resolveKey(name) : env[name]);
+         if (replacement === undefined || replacement === '') {
+            if (fallback !== undefined) {
+               return fallback;
+            }
+            if (replacement === undefined) {
+               throw new Error(`Interpolation failed: Unresolved reference \${${name}} in '${key}'`);
+            }
+         }
+
+         return replacement;
+      });
+      resolving.pop();
+
+      resolved[key] = result;
+      return result;
+   };
+
+   const interpolated: Record<string, unknown> = {};
+   for (const key of Object.keys(payload)) {
+      interpolated[key] = resolveKey(key);
+   }
+
+   return interpolated;
+}
+
+/**
+ * Normalize the `interpolate` option accepted by builds and loaders
+ *
+ * @param {boolean | InterpolateOptions | undefined} option
+ * @returns {InterpolateOptions | null} - Null when interpolation is disabled
+ */
+function interpolateOptions(option: boolean | InterpolateOptions | undefined): InterpolateOptions | null {
+   if (!option) {
+      return null;
+   }
+
+   return option === true ? {} : option;
+}
+
+export { interpolateOptions, interpolateSecrets };
@@ -0,0 +1,142 @@
+import { type EnvObject, EnvTarget, type MergeDiff, type MergeOptions } from './types';
+
+const DEFAULT_FLATTEN_SEPARATOR = '__';
+
+type MergePlan = {
+   /** Target key and value pairs to write */
+   entries: [string, unknown][];
+   diff: MergeDiff;
+};
+
+/**
+ * Convert a glob with `*` and `?` wildcards to an anchored regular expression
+ *
+ * @param {string} pattern - The glob, e.g. `PUBLIC_*`
+ * @returns {RegExp}
+ */
+function globToRegExp(pattern: string): RegExp {
+   const source = pattern
+      .split('')
+      .map((character) => {
+         if (character === '*') {
+            return '.*';
+         }
+         if (character === '?') {
+            return '.';
+         }
+         return character.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+   return new RegExp(`^${source}$`);
+}
+
+function matchesAny(key: string, patterns: RegExp[]): boolean {
+   return patterns.some((pattern) => pattern.test(key));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+   return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects into `PARENT__CHILD` keys. Arrays and other values are kept as they are.
+ *
+ * @param {Record<string, unknown>} payload - The decrypted secrets
+ * @param {string} separator - Placed between parent and child key names
+ * @returns {Record<string, unknown>}
+ */
+function flattenSecrets(payload: Record<string, unknown>, separator: string): Record<string, unknown> {
+   const flattened: Record<string, unknown> = {};
+
+   for (const [key, value] of Object.entries(payload)) {
+      if (isPlainObject(value)) {
+         for (const [childKey, childValue] of Object.entries(flattenSecrets(value, separator))) {
+            flattened[`${key}${separator}${childKey}`] = childValue;
+         }
+      } else {
+         flattened[key] = value;
+      }
+   }
+
+   return flattened;
+}
+
+/**
+ * Convert a secret to the value stored in the target.
+ * `process.env` only holds strings, so scalars are stringified and arrays and objects JSON-encoded;
+ * `import.meta.env` keeps native types.
+ *
+ * @param {unknown} value - The decrypted value
+ * @param {EnvTarget} target - Where the value is written
+ * @returns {unknown}
+ */
+function encodeValue(value: unknown, target: EnvTarget): unknown {
+   if (target === EnvTarget.IMPORT_META) {
+      return value;
+   }
+   if (value === null || value === undefined) {
+      return '';
+   }
+
+   return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Work out which secrets a merge writes and how the target changes.
+ * Filters and the override whitelist match payload key names after flattening, before any prefix is stripped or added.
+ *
+ * @param {Record<string, unknown>} payload - The decrypted secrets
+ * @param {EnvObject} current - The environment being merged into
+ * @param {EnvTarget} target - Where the secrets are written, which decides how values are encoded
+ * @param {MergeOptions} [options] - The merge policy
+ * @returns {MergePlan}
+ */
+function planMerge(
+   payload: Record<string, unknown>,
+   current: EnvObject,
+   target: EnvTarget,
+   options: MergeOptions = {},
+): MergePlan {
+   const include = (options.include || []).map(globToRegExp);
+   const exclude = (options.exclude || []).map(globToRegExp);
+   const override = options.override ?? true;
+   const overridable = Array.isArray(override) ? override.map(globToRegExp) : [];
+
+   const plan: MergePlan = { entries: [], diff: { added: [], changed: [], unchanged: [], skipped: [] } };
+
+   const separator = typeof options.flatten === 'string' ? options.flatten : DEFAULT_FLATTEN_SEPARATOR;
+   const secrets = options.flatten ? flattenSecrets(payload, separator) : payload;
+
+   for (const [key, decrypted] of Object.entries(secrets)) {
+      if (options.prefix && !key.startsWith(options.prefix)) {
+         continue;
+      }
+      if ((include.length > 0 && !matchesAny(key, include)) || matchesAny(key, exclude)) {
+         continue;
+      }
+
+      const strippedKey = options.prefix && options.stripPrefix ? key.substring(options.prefix.length) : key;
+      const targetKey = `${options.addPrefix || ''}${strippedKey}`;
+      const value = encodeValue(decrypted, target);
+      const existing = current[targetKey];
+
+      if (existing === undefined) {
+         plan.diff.added.push(targetKey);
+      } else if (existing === value) {
+         plan.diff.unchanged.push(targetKey);
+         continue;
+      } else if (override === true || (Array.isArray(override) && matchesAny(key, overridable))) {
+         plan.diff.changed.push(targetKey);
+      } else {
+         plan.diff.skipped.push(targetKey);
+         continue;
+      }
+
+      plan.entries.push([targetKey, value]);
+   }
+
+   return plan;
+}
+
+export { encodeValue, flattenSecrets, globToRegExp, planMerge };
@@ -1,14 +1,54 @@
+import * as awsSecretsManager from './providers/aws-secrets-manager';
 import * as doppler from './providers/doppler';
+import * as infisical from './providers/infisical';
+import * as onePassword from './providers/one-password';
+import { fetchFromProviders, fromProvider, registerProvider } from './providers/registry';
+import * as vault from './providers/vault';
+import { createRefreshingStore, watchSecrets } from './refresh';
 import * as secrets from './secrets';
 
 export * from './secrets';
-export const providers = { doppler };
+export const providers = { doppler, vault, awsSecretsManager, onePassword, infisical };
+export { createRefreshingStore, fetchFromProviders, fromProvider, registerProvider, watchSecrets };
+export type {
+   BuildMetadata,
+   CipherTextInfo,
+   Compression,
+   FallbackCache,
+   InferSecrets,
+   LoadSecretsOptions,
+   MergeDiff,
+   MergeOptions,
+   ProviderInput,
+   ProviderSpec,
+   RecipientAlgorithm,
+   RecipientKey,
+   RefreshOptions,
+   RefreshingStore,
+   SecretProvider,
+   SecretsDiff,
+   SecretsSchema,
+   SecretsStore,
+   StandardSchemaV1,
+   VerifyOptions,
+   VerifyResult,
+   WatchSecretsOptions,
+} from './types';
 
 const noFs = {
    ...secrets,
    providers: {
       doppler,
+      vault,
+      awsSecretsManager,
+      onePassword,
+      infisical,
    },
+   fetchFromProviders,
+   fromProvider,
+   registerProvider,
+   createRefreshingStore,
+   watchSecrets,
 };
 
 export default noFs;
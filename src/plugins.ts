@@ -0,0 +1,4 @@
+export { esbuildPlugin } from './plugins/esbuild';
+export { rollupPlugin, vitePlugin } from './plugins/rollup';
+export { webpackPlugin } from './plugins/webpack';
+export type { BundlerPluginOptions } from './types';
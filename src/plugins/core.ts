@@ -0,0 +1,82 @@
+import { buildCipherText } from '../secrets-files';
+import type { BundlerPluginOptions } from '../types';
+
+const PLUGIN_NAME = 'gitops-secrets';
+const DEFAULT_MODULE_ID = 'virtual:gitops-secrets';
+const DEFAULT_PLACEHOLDER = '__GITOPS_SECRETS_CIPHER_TEXT__';
+const DEFAULT_IMPORT_SPECIFIER = '@jacobwolf/gitops-secrets/no-fs';
+
+type SecretsBundle = {
+   moduleId: string;
+   placeholder: string;
+   /** Fetch and encrypt the secrets, once until the next `reset` */
+   cipherText: () => Promise<string>;
+   /** Source of the ES module served for {moduleId} */
+   moduleSource: () => Promise<string>;
+   /** Replace the placeholder with the cipher text literal, or null when the code doesn't use it */
+   replacePlaceholder: (code: string) => Promise<string | null>;
+   /** Forget the cipher text so the next build fetches fresh secrets */
+   reset: () => void;
+};
+
+/**
+ * Regular expression matching exactly the import of the generated module
+ *
+ * @param {string} moduleId - e.g. `virtual:gitops-secrets`
+ * @returns {RegExp}
+ */
+function moduleIdPattern(moduleId: string): RegExp {
+   return new RegExp(`^${moduleId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`);
+}
+
+/**
+ * Shared state of the bundler plugins: the cipher text for the current build and the code that inlines it
+ *
+ * @param {BundlerPluginOptions} options - The plugin options
+ * @returns {SecretsBundle}
+ */
+function createSecretsBundle(options: BundlerPluginOptions): SecretsBundle {
+   if (!options?.input) {
+      throw new Error(`${PLUGIN_NAME}: The 'input' option is required`);
+   }
+
+   const { input, moduleId, placeholder, importSpecifier, ...encryptOptions } = options;
+   const resolvedPlaceholder = placeholder || DEFAULT_PLACEHOLDER;
+   let pending: Promise<string> | null = null;
+
+   const cipherText = () => {
+      if (!pending) {
+         pending = buildCipherText(input, encryptOptions).catch((error) => {
+            pending = null;
+            throw new Error(`${PLUGIN_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+         });
+      }
+      return pending;
+   };
+
+   return {
+      moduleId: moduleId || DEFAULT_MODULE_ID,
+      placeholder: resolvedPlaceholder,
+      cipherText,
+      moduleSource: async () =>
+         [
+            `import secrets from ${JSON.stringify(importSpecifier || DEFAULT_IMPORT_SPECIFIER)};`,
+            `export const CIPHER_TEXT = ${JSON.stringify(await cipherText())};`,
+            'export const loadSecrets = (options) => secrets.loadSecrets(CIPHER_TEXT, undefined, options);',
+            'export const createSecretsStore = (options) => secrets.createSecretsStore(CIPHER_TEXT, options);',
+            '',
+         ].join('\n'),
+      replacePlaceholder: async (code) => {
+         if (!code.includes(resolvedPlaceholder)) {
+            return null;
+         }
+         return code.split(resolvedPlaceholder).join(JSON.stringify(await cipherText()));
+      },
+      reset: () => {
+         pending = null;
+      },
+   };
+}
+
+export { PLUGIN_NAME, createSecretsBundle, moduleIdPattern };
+export type { SecretsBundle };
@@ -0,0 +1,56 @@
+import type { BundlerPluginOptions } from '../types';
+import { PLUGIN_NAME, createSecretsBundle, moduleIdPattern } from './core';
+
+const NAMESPACE = 'gitops-secrets';
+
+// The parts of esbuild's plugin API used here, so esbuild isn't a dependency
+type EsbuildPluginBuild = {
+   initialOptions: { define?: Record<string, string> };
+   onResolve: (
+      options: { filter: RegExp },
+      callback: (args: { path: string }) => { path: string; namespace: string },
+   ) => void;
+   onLoad: (
+      options: { filter: RegExp; namespace: string },
+      callback: () => Promise<{ contents: string; loader: 'js'; resolveDir: string }>,
+   ) => void;
+};
+
+type EsbuildPlugin = {
+   name: string;
+   setup: (build: EsbuildPluginBuild) => Promise<void>;
+};
+
+/**
+ * esbuild plugin serving the encrypted secrets as a virtual module and defining the placeholder as the cipher text.
+ * The placeholder is defined when the plugin is set up, so secrets are fetched once per build context.
+ *
+ * @param {BundlerPluginOptions} options - The payload or provider specs and encryption options
+ * @returns {EsbuildPlugin}
+ */
+function esbuildPlugin(options: BundlerPluginOptions): EsbuildPlugin {
+   const bundle = createSecretsBundle(options);
+
+   return {
+      name: PLUGIN_NAME,
+      setup: async (build) => {
+         build.initialOptions.define = {
+            ...build.initialOptions.define,
+            [bundle.placeholder]: JSON.stringify(await bundle.cipherText()),
+         };
+
+         build.onResolve({ filter: moduleIdPattern(bundle.moduleId) }, (args) => ({
+            path: args.path,
+            namespace: NAMESPACE,
+         }));
+         build.onLoad({ filter: /.*/, namespace: NAMESPACE }, async () => ({
+            contents: await bundle.moduleSource(),
+            loader: 'js',
+            // Lets esbuild resolve the runtime import from the project
+            resolveDir: process.cwd(),
+         }));
+      },
+   };
+}
+
+export { esbuildPlugin };
@@ -0,0 +1,40 @@
+import type { BundlerPluginOptions } from '../types';
+import { PLUGIN_NAME, createSecretsBundle } from './core';
+
+// Rollup and Vite call hooks by name; only the ones used here are declared so neither is a dependency
+type RollupPlugin = {
+   name: string;
+   buildStart: () => void;
+   resolveId: (id: string) => string | null;
+   load: (id: string) => Promise<string | null>;
+   transform: (code: string, id: string) => Promise<{ code: string; map: null } | null>;
+};
+
+/**
+ * Rollup and Vite plugin serving the encrypted secrets as a virtual module and replacing the placeholder
+ * with the cipher text. Secrets are fetched and encrypted once per build.
+ *
+ * @param {BundlerPluginOptions} options - The payload or provider specs and encryption options
+ * @returns {RollupPlugin}
+ */
+function rollupPlugin(options: BundlerPluginOptions): RollupPlugin {
+   const bundle = createSecretsBundle(options);
+   // The \0 prefix tells other plugins the module is virtual
+   const resolvedId = `\0${bundle.moduleId}`;
+
+   return {
+      name: PLUGIN_NAME,
+      buildStart: () => bundle.reset(),
+      resolveId: (id) => (id === bundle.moduleId ? resolvedId : null),
+      load: async (id) => (id === resolvedId ? bundle.moduleSource() : null),
+      transform: async (code, id) => {
+         if (id === resolvedId) {
+            return null;
+         }
+         const replaced = await bundle.replacePlaceholder(code);
+         return replaced === null ? null : { code: replaced, map: null };
+      },
+   };
+}
+
+export { rollupPlugin, rollupPlugin as vitePlugin };
@@ -0,0 +1,67 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { BundlerPluginOptions } from '../types';
+import { PLUGIN_NAME, createSecretsBundle, moduleIdPattern } from './core';
+
+type WebpackApplicable = { apply: (compiler: WebpackCompiler) => void };
+
+// The parts of the webpack 5 compiler API used here, so webpack isn't a dependency
+type WebpackCompiler = {
+   context: string;
+   webpack: {
+      DefinePlugin: {
+         new (definitions: Record<string, unknown>): WebpackApplicable;
+         runtimeValue: (callback: () => string, uncacheable: true) => unknown;
+      };
+      NormalModuleReplacementPlugin: new (
+         pattern: RegExp,
+         replace: (resource: { request: string }) => void,
+      ) => WebpackApplicable;
+   };
+   hooks: {
+      beforeRun: { tapPromise: (name: string, callback: () => Promise<void>) => void };
+      watchRun: { tapPromise: (name: string, callback: () => Promise<void>) => void };
+   };
+};
+
+/**
+ * webpack 5 plugin serving the encrypted secrets as a module and defining the placeholder as the cipher text.
+ * Secrets are fetched and encrypted before each compilation, including watch rebuilds. The module is written to
+ * `node_modules/.cache/gitops-secrets` so its runtime import resolves like any other file in the project.
+ *
+ * @param {BundlerPluginOptions} options - The payload or provider specs and encryption options
+ * @returns {WebpackApplicable}
+ */
+function webpackPlugin(options: BundlerPluginOptions): WebpackApplicable {
+   const bundle = createSecretsBundle(options);
+
+   return {
+      apply: (compiler) => {
+         const { DefinePlugin, NormalModuleReplacementPlugin } = compiler.webpack;
+         const modulePath = path.join(
+            compiler.context,
+            'node_modules/.cache/gitops-secrets',
+            `${bundle.moduleId.replace(/[^A-Za-z0-9._-]/g, '_')}.mjs`,
+         );
+         let cipherText = '';
+
+         const refresh = async () => {
+            bundle.reset();
+            cipherText = await bundle.cipherText();
+            fs.mkdirSync(path.dirname(modulePath), { recursive: true });
+            fs.writeFileSync(modulePath, await bundle.moduleSource(), { encoding: 'utf-8' });
+         };
+         compiler.hooks.beforeRun.tapPromise(PLUGIN_NAME, refresh);
+         compiler.hooks.watchRun.tapPromise(PLUGIN_NAME, refresh);
+
+         new DefinePlugin({
+            [bundle.placeholder]: DefinePlugin.runtimeValue(() => JSON.stringify(cipherText), true),
+         }).apply(compiler);
+         new NormalModuleReplacementPlugin(moduleIdPattern(bundle.moduleId), (resource) => {
+            resource.request = modulePath;
+         }).apply(compiler);
+      },
+   };
+}
+
+export { webpackPlugin };
@@ -0,0 +1,91 @@
+import { readEnv } from '../utils';
+import { signRequest } from './aws-sigv4';
+import { requestJson } from './http';
+
+/**
+ * Fetch a JSON secret from AWS Secrets Manager. Requests are signed with Web Crypto so this works outside Node.
+ * @param {{awsSecretId: string}} options.awsSecretId Name or ARN of the secret. Its `SecretString` must be a JSON object.
+ * @param {{awsRegion: string}} [{awsRegion: process.env.AWS_REGION}] AWS region of the secret.
+ * @param {{awsAccessKeyId: string}} [{awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID}] AWS access key ID.
+ * @param {{awsSecretAccessKey: string}} [{awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY}] AWS secret access key.
+ * @param {{awsSessionToken: string | null}} [{awsSessionToken: process.env.AWS_SESSION_TOKEN}] Optional session token for temporary credentials.
+ * @param {{awsVersionStage: string | null}} [{awsVersionStage: null}] Optional version stage. Defaults to `AWSCURRENT`.
+ * @param {{awsEndpoint: string | null}} [{awsEndpoint: null}] Optional endpoint override, e.g. for LocalStack.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({
+   awsSecretId,
+   awsRegion = readEnv('AWS_REGION') || readEnv('AWS_DEFAULT_REGION'),
+   awsAccessKeyId = readEnv('AWS_ACCESS_KEY_ID'),
+   awsSecretAccessKey = readEnv('AWS_SECRET_ACCESS_KEY'),
+   awsSessionToken = readEnv('AWS_SESSION_TOKEN') || null,
+   awsVersionStage = null,
+   awsEndpoint = null,
+}: {
+   awsSecretId: string;
+   awsRegion?: string;
+   awsAccessKeyId?: string;
+   awsSecretAccessKey?: string;
+   awsSessionToken?: string | null;
+   awsVersionStage?: string | null;
+   awsEndpoint?: string | null;
+}): Promise<Record<string, string>> {
+   if (!awsRegion) {
+      throw new Error("AWS Secrets Manager API Error: The 'AWS_REGION' environment variable is required");
+   }
+
+   if (!awsAccessKeyId || !awsSecretAccessKey) {
+      throw new Error(
+         "AWS Secrets Manager API Error: The 'AWS_ACCESS_KEY_ID' and 'AWS_SECRET_ACCESS_KEY' environment variables are required",
+      );
+   }
+
+   if (!awsSecretId) {
+      throw new Error('AWS Secrets Manager API Error: A secret ID is required');
+   }
+
+   const url = awsEndpoint || `https://secretsmanager.${awsRegion}.amazonaws.com/`;
+   const body = JSON.stringify(
+      awsVersionStage ? { SecretId: awsSecretId, VersionStage: awsVersionStage } : { SecretId: awsSecretId },
+   );
+
+   const headers = await signRequest({
+      method: 'POST',
+      url,
+      headers: {
+         'Content-Type': 'application/x-amz-json-1.1',
+         'X-Amz-Target': 'secretsmanager.GetSecretValue',
+      },
+      body,
+      region: awsRegion,
+      service: 'secretsmanager',
+      credentials: {
+         accessKeyId: awsAccessKeyId,
+         secretAccessKey: awsSecretAccessKey,
+         sessionToken: awsSessionToken,
+      },
+   });
+
+   const data = await requestJson(
+      'AWS Secrets Manager',
+      url,
+      { method: 'POST', headers, body },
+      (error) => (error.message || error.Message) as string | undefined,
+   );
+
+   if (typeof data.SecretString !== 'string') {
+      throw new Error(`AWS Secrets Manager API Error: Secret ${awsSecretId} has no SecretString`);
+   }
+
+   try {
+      const secrets = JSON.parse(data.SecretString);
+      if (secrets === null || typeof secrets !== 'object' || Array.isArray(secrets)) {
+         throw new Error('not an object');
+      }
+      return secrets;
+   } catch {
+      throw new Error(`AWS Secrets Manager API Error: Secret ${awsSecretId} is not a JSON object of key/value pairs`);
+   }
+}
+
+export { fetchSecrets };
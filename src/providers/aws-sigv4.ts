@@ -0,0 +1,92 @@
+import { uint8ArrayToHex } from '../utils';
+
+type AwsCredentials = {
+   accessKeyId: string;
+   secretAccessKey: string;
+   sessionToken?: string | null;
+};
+
+type SignableRequest = {
+   method: string;
+   url: string;
+   headers: Record<string, string>;
+   body: string;
+   region: string;
+   service: string;
+   credentials: AwsCredentials;
+   date?: Date;
+};
+
+async function sha256Hex(data: string): Promise<string> {
+   const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+   return uint8ArrayToHex(new Uint8Array(digest));
+}
+
+async function hmac(key: Uint8Array, data: string): Promise<Uint8Array> {
+   const importedKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+   const signature = await crypto.subtle.sign('HMAC', importedKey, new TextEncoder().encode(data));
+   return new Uint8Array(signature);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 using the Web Crypto API, so AWS APIs can be called from edge runtimes.
+ *
+ * @param {SignableRequest} request - The request to sign
+ * @returns {Promise<Record<string, string>>} - The request headers including `Authorization` and `X-Amz-Date`
+ */
+async function signRequest({
+   method,
+   url,
+   headers,
+   body,
+   region,
+   service,
+   credentials,
+   date = new Date(),
+}: SignableRequest): Promise<Record<string, string>> {
+   const parsedUrl = new URL(url);
+   const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+   const dateStamp = amzDate.substring(0, 8);
+
+   const signedHeaders: Record<string, string> = { ...headers, 'X-Amz-Date': amzDate };
+   if (credentials.sessionToken) {
+      signedHeaders['X-Amz-Security-Token'] = credentials.sessionToken;
+   }
+
+   const canonicalHeaderEntries = Object.entries({ ...signedHeaders, host: parsedUrl.host })
+      .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+   const canonicalHeaders = canonicalHeaderEntries.map(([name, value]) => `${name}:${value}\n`).join('');
+   const signedHeaderNames = canonicalHeaderEntries.map(([name]) => name).join(';');
+
+   const canonicalQuery = [...parsedUrl.searchParams.entries()]
+      .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+      .sort()
+      .join('&');
+
+   const canonicalRequest = [
+      method.toUpperCase(),
+      parsedUrl.pathname || '/',
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaderNames,
+      await sha256Hex(body),
+   ].join('\n');
+
+   const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+   const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, await sha256Hex(canonicalRequest)].join('\n');
+
+   const dateKey = await hmac(new TextEncoder().encode(`AWS4${credentials.secretAccessKey}`), dateStamp);
+   const regionKey = await hmac(dateKey, region);
+   const serviceKey = await hmac(regionKey, service);
+   const signingKey = await hmac(serviceKey, 'aws4_request');
+   const signature = uint8ArrayToHex(await hmac(signingKey, stringToSign));
+
+   return {
+      ...signedHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+   };
+}
+
+export { signRequest };
+export type { AwsCredentials };
@@ -1,57 +1,193 @@
+import type { FallbackCache } from '../types';
+import { readEnv } from '../utils';
+import { ProviderRequestError, requestJson } from './http';
+
+/** Key name formats Doppler can convert secret names to */
+type DopplerNameTransformer =
+   | 'camel'
+   | 'upper-camel'
+   | 'lower-snake'
+   | 'tf-var'
+   | 'dotnet'
+   | 'dotnet-env'
+   | 'lower-kebab';
+
+type DopplerOptions = {
+   dopplerToken?: string;
+   dopplerProject?: string | null;
+   dopplerConfig?: string | null;
+   dopplerBaseUrl?: string;
+   dopplerNameTransformer?: DopplerNameTransformer | null;
+   dopplerIncludeDynamicSecrets?: boolean;
+   dopplerDynamicSecretsTtl?: number | null;
+   dopplerSecrets?: string[] | null;
+   dopplerTimeout?: number;
+   dopplerRetries?: number;
+   dopplerRetryDelay?: number;
+   dopplerFallback?: FallbackCache | null;
+   dopplerOnFallback?: DopplerFallbackListener | null;
+};
+
+/**
+ * Called with `read` and the error that made Doppler unreachable when the cached secrets are returned instead,
+ * or with `write` and the error when the fetched secrets couldn't be cached
+ */
+type DopplerFallbackListener = (event: { type: 'read' | 'write'; error: Error }) => void;
+
+const DEFAULT_BASE_URL = 'https://api.doppler.com';
+const DEFAULT_TIMEOUT = 10 * 1000;
+const DEFAULT_RETRIES = 3;
+const NAME_TRANSFORMERS: DopplerNameTransformer[] = [
+   'camel',
+   'upper-camel',
+   'lower-snake',
+   'tf-var',
+   'dotnet',
+   'dotnet-env',
+   'lower-kebab',
+];
+
+/**
+ * Save the fetched secrets to the fallback cache. Failing to write it doesn't fail the fetch.
+ * @param {FallbackCache} fallback - The cache
+ * @param {Record<string, string>} secrets - The fetched secrets
+ * @param {DopplerFallbackListener | null} onFallback - Told when the cache can't be written
+ */
+async function writeFallback(
+   fallback: FallbackCache,
+   secrets: Record<string, string>,
+   onFallback: DopplerFallbackListener | null,
+) {
+   try {
+      await fallback.write(secrets);
+   } catch (error) {
+      onFallback?.({ type: 'write', error: error instanceof Error ? error : new Error(String(error)) });
+   }
+}
+
+/**
+ * Read the secrets saved by `writeFallback`
+ * @param {FallbackCache} fallback - The cache
+ * @param {Error} cause - The error that made Doppler unreachable, reported when the cache can't be read either
+ * @param {DopplerFallbackListener | null} onFallback - Told when the cached secrets are used
+ * @returns {Promise<Record<string, string>>}
+ */
+async function readFallback(
+   fallback: FallbackCache,
+   cause: Error,
+   onFallback: DopplerFallbackListener | null,
+): Promise<Record<string, string>> {
+   let cached: Record<string, string>;
+   try {
+      cached = await fallback.read();
+   } catch (error) {
+      throw new Error(
+         `${cause.message}. The fallback cache could not be read: ${error instanceof Error ? error.message : error}`,
+      );
+   }
+
+   onFallback?.({ type: 'read', error: cause });
+   return cached;
+}
+
 /**
  * Fetch secrets from the Doppler API.
+ * Requests time out after {dopplerTimeout} milliseconds and are retried with exponential backoff on network errors,
+ * timeouts, 429 and 5xx responses, waiting as long as Doppler's Retry-After header asks.
  * @param {{dopplerToken: string}} [{dopplerToken: process.env.DOPPLER_TOKEN}] Requires a Doppler Token for API authentication. See https://docs.doppler.com/docs/enclave-service-tokens
  * @param {{dopplerProject: string | null}} [{dopplerProject: null}] Optional Doppler Project. Required when using any token type other than Service Tokens.
  * @param {{dopplerConfig: string | null}} [{dopplerConfig: null}] Optional Doppler Config. Required when using any token type other than Service Tokens.
+ * @param {{dopplerBaseUrl: string}} [{dopplerBaseUrl: process.env.DOPPLER_API_HOST || 'https://api.doppler.com'}] API base URL, e.g. a mock server in tests.
+ * @param {{dopplerNameTransformer: DopplerNameTransformer | null}} [{dopplerNameTransformer: null}] Optional key name format, e.g. `camel` or `tf-var`.
+ * @param {{dopplerIncludeDynamicSecrets: boolean}} [{dopplerIncludeDynamicSecrets: false}] Issue and include dynamic secrets.
+ * @param {{dopplerDynamicSecretsTtl: number | null}} [{dopplerDynamicSecretsTtl: null}] Optional lease in seconds for dynamic secrets.
+ * @param {{dopplerSecrets: string[] | null}} [{dopplerSecrets: null}] Optional names of the secrets to download. Defaults to all.
+ * @param {{dopplerTimeout: number}} [{dopplerTimeout: 10000}] Milliseconds before a request is aborted.
+ * @param {{dopplerRetries: number}} [{dopplerRetries: 3}] Retries after a failed request.
+ * @param {{dopplerRetryDelay: number}} [{dopplerRetryDelay: 500}] Milliseconds before the first retry, doubled for each further retry.
+ * @param {{dopplerFallback: FallbackCache | null}} [{dopplerFallback: null}] Optional cache, written on every successful fetch and read when Doppler is unreachable. Use `secretsFiles.fileFallback` for an encrypted file.
+ * @param {{dopplerOnFallback: DopplerFallbackListener | null}} [{dopplerOnFallback: null}] Optional listener told when the cache is used or can't be written.
  * @returns {() => Promise<Record<string, string>>}
  */
 async function fetchSecrets({
-   dopplerToken = process.env.DOPPLER_TOKEN || import.meta.env.DOPPLER_TOKEN,
+   dopplerToken = readEnv('DOPPLER_TOKEN'),
    dopplerProject = null,
    dopplerConfig = null,
-}: { dopplerToken?: string; dopplerProject?: string | null; dopplerConfig?: string | null }) {
+   dopplerBaseUrl = readEnv('DOPPLER_API_HOST') || DEFAULT_BASE_URL,
+   dopplerNameTransformer = null,
+   dopplerIncludeDynamicSecrets = false,
+   dopplerDynamicSecretsTtl = null,
+   dopplerSecrets = null,
+   dopplerTimeout = DEFAULT_TIMEOUT,
+   dopplerRetries = DEFAULT_RETRIES,
+   dopplerRetryDelay,
+   dopplerFallback = null,
+   dopplerOnFallback = null,
+}: DopplerOptions): Promise<Record<string, string>> {
    if (!dopplerToken) {
       throw new Error("Doppler API Error: The 'DOPPLER_TOKEN' environment variable is required");
    }
 
-   return new Promise((resolve, reject) => {
-      const url = new URL('https://api.doppler.com/v3/configs/config/secrets/download');
+   if (dopplerNameTransformer && !NAME_TRANSFORMERS.includes(dopplerNameTransformer)) {
+      throw new Error(
+         `Doppler API Error: Unsupported name transformer: ${dopplerNameTransformer}. Expected one of ${NAME_TRANSFORMERS.join(', ')}`,
+      );
+   }
+
+   const url = new URL('/v3/configs/config/secrets/download', dopplerBaseUrl);
+
+   url.searchParams.set('format', 'json');
+
+   if (dopplerProject) {
+      url.searchParams.set('project', dopplerProject);
+   }
+
+   if (dopplerConfig) {
+      url.searchParams.set('config', dopplerConfig);
+   }
 
-      url.searchParams.set('format', 'json');
+   if (dopplerNameTransformer) {
+      url.searchParams.set('name_transformer', dopplerNameTransformer);
+   }
 
-      if (dopplerProject) {
-         url.searchParams.set('project', dopplerProject);
+   if (dopplerIncludeDynamicSecrets) {
+      url.searchParams.set('include_dynamic_secrets', 'true');
+      if (dopplerDynamicSecretsTtl !== null) {
+         url.searchParams.set('dynamic_secrets_ttl_sec', String(dopplerDynamicSecretsTtl));
       }
+   }
+
+   if (dopplerSecrets && dopplerSecrets.length > 0) {
+      url.searchParams.set('secrets', dopplerSecrets.join(','));
+   }
 
-      if (dopplerConfig) {
-         url.searchParams.set('config', dopplerConfig);
+   const headers = new Headers();
+   headers.set('Authorization', `Bearer ${dopplerToken}`);
+   headers.set('user-agent', '@jacobwolf/gitops-secrets');
+
+   let secrets: Record<string, string>;
+   try {
+      secrets = await requestJson(
+         'Doppler',
+         url.toString(),
+         { headers },
+         (data) => (Array.isArray(data.messages) && data.messages.length > 0 ? data.messages.join(' ') : undefined),
+         { timeout: dopplerTimeout, retries: dopplerRetries, retryDelay: dopplerRetryDelay },
+      );
+   } catch (error) {
+      // Only fall back when Doppler is unreachable, so revoked tokens and missing configs still fail loudly
+      if (dopplerFallback && error instanceof ProviderRequestError && error.retryable) {
+         return readFallback(dopplerFallback, error, dopplerOnFallback);
       }
+      throw error;
+   }
+
+   if (dopplerFallback) {
+      await writeFallback(dopplerFallback, secrets, dopplerOnFallback);
+   }
 
-      const headers = new Headers();
-      headers.set('Authorization', `Bearer ${dopplerToken}`);
-      headers.set('user-agent', '@jacobwolf/gitoops-secrets');
-
-      fetch(url.toString(), { headers })
-         .then((response) => {
-            if (response.ok) {
-               return response.json();
-            }
-
-            return response
-               .json()
-               .then((data) => {
-                  const errorMessage = data.messages
-                     ? data.messages.join(' ')
-                     : `${response.status} ${response.statusText}`;
-                  throw new Error(`Doppler API Error: ${errorMessage}`);
-               })
-               .catch(() => {
-                  throw new Error(`Doppler API Error: ${response.status} ${response.statusText}`);
-               });
-         })
-         .then((data) => resolve(data))
-         .catch((error) => reject(new Error(`Doppler API Error: ${error.message || error}`)));
-   });
+   return secrets;
 }
 
 export { fetchSecrets };
+export type { DopplerFallbackListener, DopplerNameTransformer, DopplerOptions };
@@ -0,0 +1,102 @@
+import { readSource } from './files';
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', $: '$' };
+
+/**
+ * Parse the contents of a `.env` file.
+ * Supports `export` prefixes, `#` comments, single, double and backtick quoted values spanning multiple lines,
+ * and escape sequences inside double quotes. Later assignments of the same key win.
+ *
+ * @param {string} source - The file contents
+ * @returns {Record<string, string>}
+ */
+function parse(source: string): Record<string, string> {
+   const secrets: Record<string, string> = {};
+   const text = source.replace(/\r\n?/g, '\n');
+   let position = 0;
+   let lineNumber = 1;
+
+   while (position < text.length) {
+      const lineEnd = text.indexOf('\n', position) === -1 ? text.length : text.indexOf('\n', position);
+      const line = text.substring(position, lineEnd).trim();
+
+      if (line === '' || line.startsWith('#')) {
+         position = lineEnd + 1;
+         lineNumber++;
+         continue;
+      }
+
+      const separator = line.indexOf('=');
+      if (separator === -1) {
+         throw new Error(`Dotenv Provider Error: Expected KEY=VALUE on line ${lineNumber}`);
+      }
+
+      const key = line
+         .substring(0, separator)
+         .replace(/^export\s+/, '')
+         .trim();
+      if (!KEY_PATTERN.test(key)) {
+         throw new Error(`Dotenv Provider Error: Invalid key '${key}' on line ${lineNumber}`);
+      }
+
+      const valueStart = text.indexOf('=', position) + 1;
+      let cursor = valueStart;
+      while (text[cursor] === ' ' || text[cursor] === '\t') {
+         cursor++;
+      }
+
+      const quote = text[cursor];
+      if (quote === '"' || quote === "'" || quote === '`') {
+         const closing = findClosingQuote(text, cursor + 1, quote);
+         if (closing === -1) {
+            throw new Error(`Dotenv Provider Error: Unterminated ${quote} quote for '${key}' on line ${lineNumber}`);
+         }
+
+         const raw = text.substring(cursor + 1, closing);
+         secrets[key] = quote === '"' ? unescapeDoubleQuoted(raw) : raw;
+         lineNumber += raw.split('\n').length - 1;
+
+         const rest = text.indexOf('\n', closing) === -1 ? text.length : text.indexOf('\n', closing);
+         position = rest + 1;
+         lineNumber++;
+         continue;
+      }
+
+      const value = text.substring(cursor, lineEnd);
+      const comment = value.search(/\s#/);
+      secrets[key] = (comment === -1 ? value : value.substring(0, comment)).trim();
+
+      position = lineEnd + 1;
+      lineNumber++;
+   }
+
+   return secrets;
+}
+
+function findClosingQuote(text: string, start: number, quote: string): number {
+   for (let i = start; i < text.length; i++) {
+      if (text[i] === '\\' && quote === '"') {
+         i++;
+      } else if (text[i] === quote) {
+         return i;
+      }
+   }
+
+   return -1;
+}
+
+function unescapeDoubleQuoted(value: string): string {
+   return value.replace(/\\(.)/g, (match, character: string) => DOUBLE_QUOTE_ESCAPES[character] ?? match);
+}
+
+/**
+ * Read secrets from a `.env` file.
+ * @param {{dotenvPath: string}} [{dotenvPath: '.env'}] Path to the file.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({ dotenvPath = '.env' }: { dotenvPath?: string } = {}): Promise<Record<string, string>> {
+   return parse(readSource('Dotenv', dotenvPath));
+}
+
+export { fetchSecrets, parse };
@@ -0,0 +1,51 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Read a local secrets file
+ *
+ * @param {string} providerName - Used to prefix error messages, e.g. "Dotenv Provider Error"
+ * @param {string} filePath - Path to the file
+ * @returns {string} - The file contents
+ */
+function readSource(providerName: string, filePath: string): string {
+   if (!filePath) {
+      throw new Error(`${providerName} Provider Error: A file path is required`);
+   }
+
+   const resolvedPath = path.resolve(filePath);
+   try {
+      return fs.readFileSync(resolvedPath, { encoding: 'utf-8' });
+   } catch (error) {
+      throw new Error(`${providerName} Provider Error: Failed to read ${resolvedPath}: ${error}`);
+   }
+}
+
+/**
+ * Coerce parsed values to the `Record<string, string>` shape returned by remote providers.
+ * Numbers and booleans are stringified, null becomes an empty string and nested values are JSON-encoded.
+ *
+ * @param {string} providerName - Used to prefix error messages
+ * @param {unknown} parsed - The parsed document
+ * @returns {Record<string, string>}
+ */
+function toStringRecord(providerName: string, parsed: unknown): Record<string, string> {
+   if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`${providerName} Provider Error: The file must contain an object of key/value pairs`);
+   }
+
+   const secrets: Record<string, string> = {};
+   for (const [key, value] of Object.entries(parsed)) {
+      if (value === null || value === undefined) {
+         secrets[key] = '';
+      } else if (typeof value === 'object') {
+         secrets[key] = JSON.stringify(value);
+      } else {
+         secrets[key] = String(value);
+      }
+   }
+
+   return secrets;
+}
+
+export { readSource, toStringRecord };
@@ -0,0 +1,164 @@
+type ErrorMessageReader = (data: Record<string, unknown>) => string | undefined;
+
+type RequestOptions = {
+   /** Milliseconds before a request is aborted. Defaults to no timeout */
+   timeout?: number;
+   /** Retries after network errors, timeouts, 429 and 5xx responses. Defaults to 0 */
+   retries?: number;
+   /** Milliseconds before the first retry, doubled for each further retry. Defaults to 500 */
+   retryDelay?: number;
+};
+
+const DEFAULT_RETRY_DELAY = 500;
+// Upper bound for waiting on a Retry-After header, so a misbehaving API can't stall a build
+const MAX_RETRY_DELAY = 60 * 1000;
+
+/** A failed provider request. {status} is null when no response was received, e.g. after a timeout */
+class ProviderRequestError extends Error {
+   readonly status: number | null;
+
+   constructor(message: string, status: number | null) {
+      super(message);
+      this.name = 'ProviderRequestError';
+      this.status = status;
+   }
+
+   /** Whether the provider was unreachable, rate limited or failing, rather than rejecting the request */
+   get retryable(): boolean {
+      return this.status === null || this.status === 429 || this.status >= 500;
+   }
+}
+
+/**
+ * Read a Retry-After header given in seconds or as an HTTP date
+ *
+ * @param {string | null} header - The header value
+ * @returns {number | null} - Milliseconds to wait, or null when the header is missing or invalid
+ */
+function retryAfter(header: string | null): number | null {
+   if (!header) {
+      return null;
+   }
+
+   const seconds = Number(header);
+   if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+   }
+
+   const date = Date.parse(header);
+   return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function wait(milliseconds: number): Promise<void> {
+   return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Make one request and parse the JSON body, aborting after {timeout} milliseconds
+ *
+ * @param {string} providerName - Used to prefix error messages
+ * @param {string} url - The request URL
+ * @param {RequestInit} init - Request options
+ * @param {number} [timeout] - Milliseconds before the request is aborted
+ * @returns {Promise<[Response, unknown]>} - The response and its parsed body, or undefined when it isn't JSON
+ */
+async function fetchJson(
+   providerName: string,
+   url: string,
+   init: RequestInit,
+   timeout?: number,
+): Promise<[Response, unknown]> {
+   const controller = timeout ? new AbortController() : null;
+   const timer = controller ? setTimeout(() => controller.abort(), timeout) : undefined;
+
+   try {
+      const response = await fetch(url, controller ? { ...init, signal: controller.signal } : init);
+      try {
+         return [response, await response.json()];
+      } catch (error) {
+         if (controller?.signal.aborted) {
+            throw error;
+         }
+         if (response.ok) {
+            throw new ProviderRequestError(
+               `${providerName} API Error: ${error instanceof Error ? error.message : error}`,
+               response.status,
+            );
+         }
+         // Error responses without a JSON body are reported by their status
+         return [response, undefined];
+      }
+   } catch (error) {
+      if (error instanceof ProviderRequestError) {
+         throw error;
+      }
+      const message = controller?.signal.aborted
+         ? `Request timed out after ${timeout}ms`
+         : error instanceof Error
+           ? error.message
+           : error;
+      throw new ProviderRequestError(`${providerName} API Error: ${message}`, null);
+   } finally {
+      clearTimeout(timer);
+   }
+}
+
+/**
+ * Fetch a JSON document from a provider API, surfacing the provider's own error message when the request fails.
+ * Pass {options.retries} to retry with exponential backoff when the provider is unreachable, rate limited or failing,
+ * waiting as long as a Retry-After header asks.
+ *
+ * @param {string} providerName - Used to prefix error messages, e.g. "Vault API Error"
+ * @param {string} url - The request URL
+ * @param {RequestInit} init - Request options
+ * @param {ErrorMessageReader} readErrorMessage - Extracts a message from the provider's error body
+ * @param {RequestOptions} [options] - Timeout and retry policy
+ * @returns {Promise<any>} - The parsed response body
+ */
+async function requestJson(
+   providerName: string,
+   url: string,
+   init: RequestInit,
+   readErrorMessage: ErrorMessageReader,
+   options: RequestOptions = {},
+   // biome-ignore lint/suspicious/noExplicitAny: Response bodies are provider specific
+): Promise<any> {
+   const retries = options.retries ?? 0;
+   const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+   for (let attempt = 0; ; attempt++) {
+      let error: ProviderRequestError;
+      let delay = retryDelay * 2 ** attempt;
+      try {
+         const [response, body] = await fetchJson(providerName, url, init, options.timeout);
+         if (response.ok) {
+            return body;
+         }
+
+         let message: string | undefined;
+         try {
+            message = body ? readErrorMessage(body as Record<string, unknown>) : undefined;
+         } catch {
+            message = undefined;
+         }
+         error = new ProviderRequestError(
+            `${providerName} API Error: ${message || `${response.status} ${response.statusText}`}`,
+            response.status,
+         );
+         delay = retryAfter(response.headers.get('retry-after')) ?? delay;
+      } catch (caught) {
+         if (!(caught instanceof ProviderRequestError)) {
+            throw caught;
+         }
+         error = caught;
+      }
+
+      if (attempt >= retries || !error.retryable) {
+         throw error;
+      }
+      await wait(Math.min(delay, MAX_RETRY_DELAY));
+   }
+}
+
+export { ProviderRequestError, requestJson };
+export type { ErrorMessageReader, RequestOptions };
@@ -0,0 +1,63 @@
+import { readEnv } from '../utils';
+import { requestJson } from './http';
+
+type InfisicalSecret = {
+   secretKey: string;
+   secretValue: string;
+};
+
+/**
+ * Fetch secrets from Infisical.
+ * @param {{infisicalProjectId: string}} options.infisicalProjectId ID of the Infisical project.
+ * @param {{infisicalEnvironment: string}} options.infisicalEnvironment Environment slug, e.g. `prod`.
+ * @param {{infisicalToken: string}} [{infisicalToken: process.env.INFISICAL_TOKEN}] Access token for API authentication.
+ * @param {{infisicalSecretPath: string}} [{infisicalSecretPath: '/'}] Folder path of the secrets.
+ * @param {{infisicalSiteUrl: string}} [{infisicalSiteUrl: 'https://app.infisical.com'}] Infisical instance URL for self-hosted deployments.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({
+   infisicalProjectId,
+   infisicalEnvironment,
+   infisicalToken = readEnv('INFISICAL_TOKEN'),
+   infisicalSecretPath = '/',
+   infisicalSiteUrl = readEnv('INFISICAL_SITE_URL') || 'https://app.infisical.com',
+}: {
+   infisicalProjectId: string;
+   infisicalEnvironment: string;
+   infisicalToken?: string;
+   infisicalSecretPath?: string;
+   infisicalSiteUrl?: string;
+}): Promise<Record<string, string>> {
+   if (!infisicalToken) {
+      throw new Error("Infisical API Error: The 'INFISICAL_TOKEN' environment variable is required");
+   }
+
+   if (!infisicalProjectId || !infisicalEnvironment) {
+      throw new Error('Infisical API Error: A project ID and environment are required');
+   }
+
+   const url = new URL('/api/v3/secrets/raw', infisicalSiteUrl);
+   url.searchParams.set('workspaceId', infisicalProjectId);
+   url.searchParams.set('environment', infisicalEnvironment);
+   url.searchParams.set('secretPath', infisicalSecretPath);
+
+   const headers = new Headers();
+   headers.set('Authorization', `Bearer ${infisicalToken}`);
+   headers.set('user-agent', '@jacobwolf/gitops-secrets');
+
+   const data = await requestJson(
+      'Infisical',
+      url.toString(),
+      { headers },
+      (error) => error.message as string | undefined,
+   );
+
+   const secrets: Record<string, string> = {};
+   for (const secret of (data.secrets || []) as InfisicalSecret[]) {
+      secrets[secret.secretKey] = secret.secretValue;
+   }
+
+   return secrets;
+}
+
+export { fetchSecrets };
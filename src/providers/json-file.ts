@@ -0,0 +1,22 @@
+import { readSource, toStringRecord } from './files';
+
+/**
+ * Read secrets from a JSON file containing an object of key/value pairs.
+ * Non-string values are stringified and nested values are JSON-encoded.
+ * @param {{jsonPath: string}} options.jsonPath Path to the file.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({ jsonPath }: { jsonPath: string }): Promise<Record<string, string>> {
+   const source = readSource('JSON', jsonPath);
+
+   let parsed: unknown;
+   try {
+      parsed = JSON.parse(source);
+   } catch (error) {
+      throw new Error(`JSON Provider Error: Failed to parse ${jsonPath}: ${error}`);
+   }
+
+   return toStringRecord('JSON', parsed);
+}
+
+export { fetchSecrets };
@@ -0,0 +1,67 @@
+import { readEnv } from '../utils';
+import { requestJson } from './http';
+
+type OnePasswordField = {
+   label?: string;
+   value?: string;
+};
+
+/**
+ * Fetch the fields of a 1Password item through a 1Password Connect server.
+ * Each field's label becomes a key; fields without a label or value are skipped.
+ * @param {{onePasswordVault: string}} options.onePasswordVault ID of the vault holding the item.
+ * @param {{onePasswordItem: string}} options.onePasswordItem ID of the item.
+ * @param {{onePasswordHost: string}} [{onePasswordHost: process.env.OP_CONNECT_HOST}] URL of the Connect server.
+ * @param {{onePasswordToken: string}} [{onePasswordToken: process.env.OP_CONNECT_TOKEN}] Connect access token.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({
+   onePasswordVault,
+   onePasswordItem,
+   onePasswordHost = readEnv('OP_CONNECT_HOST'),
+   onePasswordToken = readEnv('OP_CONNECT_TOKEN'),
+}: {
+   onePasswordVault: string;
+   onePasswordItem: string;
+   onePasswordHost?: string;
+   onePasswordToken?: string;
+}): Promise<Record<string, string>> {
+   if (!onePasswordHost) {
+      throw new Error("1Password Connect API Error: The 'OP_CONNECT_HOST' environment variable is required");
+   }
+
+   if (!onePasswordToken) {
+      throw new Error("1Password Connect API Error: The 'OP_CONNECT_TOKEN' environment variable is required");
+   }
+
+   if (!onePasswordVault || !onePasswordItem) {
+      throw new Error('1Password Connect API Error: A vault ID and item ID are required');
+   }
+
+   const url = new URL(
+      `/v1/vaults/${encodeURIComponent(onePasswordVault)}/items/${encodeURIComponent(onePasswordItem)}`,
+      onePasswordHost,
+   );
+
+   const headers = new Headers();
+   headers.set('Authorization', `Bearer ${onePasswordToken}`);
+   headers.set('user-agent', '@jacobwolf/gitops-secrets');
+
+   const item = await requestJson(
+      '1Password Connect',
+      url.toString(),
+      { headers },
+      (data) => data.message as string | undefined,
+   );
+
+   const secrets: Record<string, string> = {};
+   for (const field of (item.fields || []) as OnePasswordField[]) {
+      if (field.label && field.value !== undefined) {
+         secrets[field.label] = field.value;
+      }
+   }
+
+   return secrets;
+}
+
+export { fetchSecrets };
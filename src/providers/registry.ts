@@ -0,0 +1,129 @@
+import type { ProviderInput, ProviderSpec, SecretProvider, SecretsInput } from '../types';
+import * as awsSecretsManager from './aws-secrets-manager';
+import * as doppler from './doppler';
+import * as infisical from './infisical';
+import * as onePassword from './one-password';
+import * as vault from './vault';
+
+/** Marks the specs created by `fromProvider`. Registered globally so copies of this module agree on it */
+const PROVIDER_SPEC: unique symbol = Symbol.for('@jacobwolf/gitops-secrets/provider-spec');
+
+const registry = new Map<string, SecretProvider>([
+   ['doppler', { name: 'doppler', fetchSecrets: doppler.fetchSecrets }],
+   ['vault', { name: 'vault', fetchSecrets: vault.fetchSecrets }],
+   ['awsSecretsManager', { name: 'awsSecretsManager', fetchSecrets: awsSecretsManager.fetchSecrets }],
+   ['onePassword', { name: 'onePassword', fetchSecrets: onePassword.fetchSecrets }],
+   ['infisical', { name: 'infisical', fetchSecrets: infisical.fetchSecrets }],
+]);
+
+/**
+ * Register a provider so it can be referenced by name in provider specs.
+ * Registering a name that is already taken replaces the existing provider.
+ *
+ * @param {SecretProvider} provider - The provider to register
+ */
+function registerProvider(provider: SecretProvider) {
+   if (!provider?.name || typeof provider.fetchSecrets !== 'function') {
+      throw new Error('Providers must have a name and a fetchSecrets function');
+   }
+
+   registry.set(provider.name, provider);
+}
+
+/**
+ * Look up a registered provider by name
+ *
+ * @param {string} name - The provider name
+ * @returns {SecretProvider}
+ */
+function getProvider(name: string): SecretProvider {
+   const provider = registry.get(name);
+   if (!provider) {
+      throw new Error(`Unknown provider '${name}'. Registered providers: ${[...registry.keys()].join(', ')}`);
+   }
+
+   return provider;
+}
+
+/**
+ * Mark a provider spec as the input of `build`, `encryptToFile` or a refreshing store.
+ * Only marked specs are fetched from, so a payload that happens to have a `provider` key is still encrypted as is.
+ *
+ * @param {ProviderSpec['provider']} provider - A registered provider name or a provider object
+ * @param {Record<string, any>} [options] - Options passed to the provider
+ * @returns {ProviderInput}
+ */
+function fromProvider(provider: ProviderSpec['provider'], options?: ProviderSpec['options']): ProviderInput {
+   return { provider, options, [PROVIDER_SPEC]: true };
+}
+
+/**
+ * Check whether a value is a provider spec created by `fromProvider` rather than a pre-fetched payload
+ *
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+function isProviderSpec(value: unknown): value is ProviderInput {
+   return !!value && typeof value === 'object' && (value as Partial<ProviderInput>)[PROVIDER_SPEC] === true;
+}
+
+/**
+ * Fetch secrets from several providers and merge them.
+ * Providers are queried in parallel; when a key is returned by more than one, the provider later in the list wins.
+ *
+ * @param {ProviderSpec[]} specs - The providers to fetch from
+ * @returns {Promise<Record<string, string>>} - The merged secrets
+ */
+async function fetchFromProviders(specs: ProviderSpec[]): Promise<Record<string, string>> {
+   const results = await Promise.all(
+      specs.map(async (spec) => {
+         const provider = typeof spec.provider === 'string' ? getProvider(spec.provider) : spec.provider;
+         const options = spec.options || {};
+
+         try {
+            if (provider.validate) {
+               await provider.validate(options);
+            }
+            return await provider.fetchSecrets(options);
+         } catch (error) {
+            throw new Error(
+               `Provider '${provider.name}' failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+         }
+      }),
+   );
+
+   return Object.assign({}, ...results);
+}
+
+/**
+ * Resolve the input of `build` or `encryptToFile` to a payload, fetching from providers when given specs
+ * created by `fromProvider`
+ *
+ * @param {SecretsInput} input - A payload or provider specs
+ * @returns {Promise<Record<string, unknown>>} - The payload
+ */
+async function resolvePayload(input: SecretsInput): Promise<Record<string, unknown>> {
+   if (Array.isArray(input)) {
+      if (!input.every(isProviderSpec)) {
+         throw new Error('Provider specs must be created with fromProvider()');
+      }
+      return fetchFromProviders(input);
+   }
+
+   if (isProviderSpec(input)) {
+      return fetchFromProviders([input]);
+   }
+
+   return input;
+}
+
+export {
+   PROVIDER_SPEC,
+   registerProvider,
+   getProvider,
+   fromProvider,
+   isProviderSpec,
+   fetchFromProviders,
+   resolvePayload,
+};
@@ -0,0 +1,68 @@
+import { readEnv } from '../utils';
+import { requestJson } from './http';
+
+/**
+ * Fetch secrets from a HashiCorp Vault KV v2 secrets engine.
+ * @param {{vaultPath: string}} options.vaultPath Path of the secret within the mount, e.g. `my-app/production`.
+ * @param {{vaultAddress: string}} [{vaultAddress: process.env.VAULT_ADDR}] Vault server address.
+ * @param {{vaultToken: string}} [{vaultToken: process.env.VAULT_TOKEN}] Vault token for API authentication.
+ * @param {{vaultNamespace: string | null}} [{vaultNamespace: process.env.VAULT_NAMESPACE}] Optional Vault Enterprise namespace.
+ * @param {{vaultMount: string}} [{vaultMount: 'secret'}] Mount path of the KV v2 engine.
+ * @param {{vaultVersion: number | null}} [{vaultVersion: null}] Optional secret version. Defaults to the latest.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({
+   vaultPath,
+   vaultAddress = readEnv('VAULT_ADDR'),
+   vaultToken = readEnv('VAULT_TOKEN'),
+   vaultNamespace = readEnv('VAULT_NAMESPACE') || null,
+   vaultMount = 'secret',
+   vaultVersion = null,
+}: {
+   vaultPath: string;
+   vaultAddress?: string;
+   vaultToken?: string;
+   vaultNamespace?: string | null;
+   vaultMount?: string;
+   vaultVersion?: number | null;
+}): Promise<Record<string, string>> {
+   if (!vaultAddress) {
+      throw new Error("Vault API Error: The 'VAULT_ADDR' environment variable is required");
+   }
+
+   if (!vaultToken) {
+      throw new Error("Vault API Error: The 'VAULT_TOKEN' environment variable is required");
+   }
+
+   if (!vaultPath) {
+      throw new Error('Vault API Error: A secret path is required');
+   }
+
+   const mount = vaultMount.replace(/^\/+|\/+$/g, '');
+   const secretPath = vaultPath.replace(/^\/+|\/+$/g, '');
+   const url = new URL(`/v1/${mount}/data/${secretPath}`, vaultAddress);
+
+   if (vaultVersion !== null) {
+      url.searchParams.set('version', String(vaultVersion));
+   }
+
+   const headers = new Headers();
+   headers.set('X-Vault-Token', vaultToken);
+   headers.set('user-agent', '@jacobwolf/gitops-secrets');
+
+   if (vaultNamespace) {
+      headers.set('X-Vault-Namespace', vaultNamespace);
+   }
+
+   const body = await requestJson('Vault', url.toString(), { headers }, (data) =>
+      Array.isArray(data.errors) && data.errors.length > 0 ? data.errors.join(' ') : undefined,
+   );
+
+   if (!body?.data?.data) {
+      throw new Error(`Vault API Error: No secret data found at ${mount}/${secretPath}`);
+   }
+
+   return body.data.data;
+}
+
+export { fetchSecrets };
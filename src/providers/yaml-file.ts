@@ -0,0 +1,338 @@
+import { readSource, toStringRecord } from './files';
+
+type ParserState = {
+   lines: string[];
+   index: number;
+};
+
+const SEQUENCE_ITEM = /^-(\s|$)/;
+
+/**
+ * Parse the subset of YAML used for secrets files: nested block mappings and sequences, plain, quoted and
+ * block (`|`, `>`) scalars, flow sequences and mappings of scalars, and `#` comments.
+ * Anchors, aliases, tags and multiple documents are not supported.
+ *
+ * @param {string} source - The file contents
+ * @returns {unknown} - The parsed document
+ */
+function parse(source: string): unknown {
+   const state: ParserState = { lines: source.replace(/\r\n?/g, '\n').split('\n'), index: 0 };
+
+   skipInsignificant(state);
+   if (state.index >= state.lines.length) {
+      return {};
+   }
+
+   const result = parseNode(state, indentOf(state.lines[state.index]));
+
+   skipInsignificant(state);
+   if (state.index < state.lines.length) {
+      throw syntaxError(state, 'Unexpected content');
+   }
+
+   return result;
+}
+
+function syntaxError(state: ParserState, message: string) {
+   return new Error(`YAML Provider Error: ${message} on line ${state.index + 1}`);
+}
+
+function indentOf(line: string): number {
+   return line.length - line.trimStart().length;
+}
+
+function skipInsignificant(state: ParserState) {
+   while (state.index < state.lines.length) {
+      const text = state.lines[state.index].trim();
+      if (text !== '' && !text.startsWith('#') && text !== '---') {
+         return;
+      }
+      state.index++;
+   }
+}
+
+function stripComment(text: string): string {
+   let quote: string | null = null;
+   for (let i = 0; i < text.length; i++) {
+      const character = text[i];
+      if (quote) {
+         if (character === '\\' && quote === '"') {
+            i++;
+         } else if (character === quote) {
+            quote = null;
+         }
+      } else if (character === '"' || character === "'") {
+         quote = character;
+      } else if (character === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+         return text.substring(0, i).trimEnd();
+      }
+   }
+
+   return text;
+}
+
+function parseNode(state: ParserState, indent: number): unknown {
+   const text = state.lines[state.index].trim();
+   return SEQUENCE_ITEM.test(text) ? parseSequence(state, indent) : parseMapping(state, indent);
+}
+
+function parseMapping(state: ParserState, indent: number): Record<string, unknown> {
+   const result: Record<string, unknown> = {};
+
+   while (true) {
+      skipInsignificant(state);
+      if (state.index >= state.lines.length) {
+         break;
+      }
+
+      const line = state.lines[state.index];
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent) {
+         break;
+      }
+      if (lineIndent > indent) {
+         throw syntaxError(state, 'Unexpected indentation');
+      }
+
+      const content = stripComment(line.trim());
+      if (SEQUENCE_ITEM.test(content)) {
+         break;
+      }
+
+      const { key, rest } = splitKey(state, content);
+      state.index++;
+      result[key] = parseValue(state, rest, indent);
+   }
+
+   return result;
+}
+
+function parseSequence(state: ParserState, indent: number): unknown[] {
+   const result: unknown[] = [];
+
+   while (true) {
+      skipInsignificant(state);
+      if (state.index >= state.lines.length) {
+         break;
+      }
+
+      const line = state.lines[state.index];
+      const lineIndent = indentOf(line);
+      const content = stripComment(line.trim());
+      if (lineIndent < indent || (lineIndent === indent && !SEQUENCE_ITEM.test(content))) {
+         break;
+      }
+      if (lineIndent > indent) {
+         throw syntaxError(state, 'Unexpected indentation');
+      }
+
+      const rest = content.substring(1).trimStart();
+      if (rest !== '' && findKeySeparator(rest) !== -1 && !/^["'[{]/.test(rest)) {
+         // "- key: value" starts a mapping aligned with the text after the dash
+         const itemIndent = indent + (content.length - rest.length);
+         state.lines[state.index] = `${' '.repeat(itemIndent)}${rest}`;
+         result.push(parseMapping(state, itemIndent));
+         continue;
+      }
+
+      state.index++;
+      result.push(parseValue(state, rest, indent));
+   }
+
+   return result;
+}
+
+function parseValue(state: ParserState, rest: string, indent: number): unknown {
+   if (rest === '') {
+      skipInsignificant(state);
+      if (state.index >= state.lines.length) {
+         return null;
+      }
+
+      const next = state.lines[state.index];
+      const nextIndent = indentOf(next);
+      if (nextIndent > indent || (nextIndent === indent && SEQUENCE_ITEM.test(next.trim()))) {
+         return parseNode(state, nextIndent);
+      }
+
+      return null;
+   }
+
+   if (/^[|>][-+]?$/.test(rest)) {
+      return parseBlockScalar(state, rest, indent);
+   }
+
+   return parseScalar(state, rest);
+}
+
+function findKeySeparator(content: string): number {
+   let quote: string | null = null;
+   for (let i = 0; i < content.length; i++) {
+      const character = content[i];
+      if (quote) {
+         if (character === quote) {
+            quote = null;
+         }
+      } else if (i === 0 && (character === '"' || character === "'")) {
+         quote = character;
+      } else if (character === ':' && (i === content.length - 1 || content[i + 1] === ' ')) {
+         return i;
+      }
+   }
+
+   return -1;
+}
+
+function splitKey(state: ParserState, content: string): { key: string; rest: string } {
+   const separator = findKeySeparator(content);
+   if (separator === -1) {
+      throw syntaxError(state, 'Expected key: value');
+   }
+
+   const rawKey = content.substring(0, separator).trim();
+   const key = /^["']/.test(rawKey) ? String(parseScalar(state, rawKey)) : rawKey;
+
+   return { key, rest: content.substring(separator + 1).trim() };
+}
+
+function parseBlockScalar(state: ParserState, header: string, indent: number): string {
+   const lines: string[] = [];
+   let blockIndent = -1;
+
+   while (state.index < state.lines.length) {
+      const line = state.lines[state.index];
+      if (line.trim() === '') {
+         lines.push('');
+         state.index++;
+         continue;
+      }
+
+      const lineIndent = indentOf(line);
+      if (lineIndent <= indent) {
+         break;
+      }
+      if (blockIndent === -1) {
+         blockIndent = lineIndent;
+      }
+      if (lineIndent < blockIndent) {
+         throw syntaxError(state, 'Block scalar lines must share the same indentation');
+      }
+
+      lines.push(line.substring(blockIndent));
+      state.index++;
+   }
+
+   let trailing = 0;
+   while (trailing < lines.length && lines[lines.length - 1 - trailing] === '') {
+      trailing++;
+   }
+   const content = lines.slice(0, lines.length - trailing);
+
+   const body =
+      header[0] === '|'
+         ? content.join('\n')
+         : content.reduce(
+              (folded, line, i) =>
+                 i === 0 ? line : line === '' ? `${folded}\n` : `${folded}${folded.endsWith('\n') ? '' : ' '}${line}`,
+              '',
+           );
+
+   if (header.endsWith('-') || body === '') {
+      return body;
+   }
+
+   return header.endsWith('+') ? `${body}${'\n'.repeat(trailing + 1)}` : `${body}\n`;
+}
+
+function splitFlow(state: ParserState, inner: string): string[] {
+   const items: string[] = [];
+   let quote: string | null = null;
+   let start = 0;
+
+   for (let i = 0; i < inner.length; i++) {
+      const character = inner[i];
+      if (quote) {
+         if (character === quote) {
+            quote = null;
+         }
+      } else if (character === '"' || character === "'") {
+         quote = character;
+      } else if (character === '[' || character === '{') {
+         throw syntaxError(state, 'Nested flow collections are not supported');
+      } else if (character === ',') {
+         items.push(inner.substring(start, i).trim());
+         start = i + 1;
+      }
+   }
+
+   const last = inner.substring(start).trim();
+   if (last !== '') {
+      items.push(last);
+   }
+
+   return items;
+}
+
+function parseScalar(state: ParserState, text: string): unknown {
+   if (text.startsWith('"')) {
+      if (!text.endsWith('"') || text.length < 2) {
+         throw syntaxError(state, 'Unterminated double quoted string');
+      }
+      try {
+         return JSON.parse(text);
+      } catch {
+         throw syntaxError(state, 'Invalid double quoted string');
+      }
+   }
+
+   if (text.startsWith("'")) {
+      if (!text.endsWith("'") || text.length < 2) {
+         throw syntaxError(state, 'Unterminated single quoted string');
+      }
+      return text.substring(1, text.length - 1).replace(/''/g, "'");
+   }
+
+   if (text.startsWith('[') && text.endsWith(']')) {
+      return splitFlow(state, text.substring(1, text.length - 1)).map((item) => parseScalar(state, item));
+   }
+
+   if (text.startsWith('{') && text.endsWith('}')) {
+      const result: Record<string, unknown> = {};
+      for (const item of splitFlow(state, text.substring(1, text.length - 1))) {
+         const { key, rest } = splitKey(state, item);
+         result[key] = rest === '' ? null : parseScalar(state, rest);
+      }
+      return result;
+   }
+
+   if (text === '~' || text === 'null' || text === 'Null' || text === 'NULL') {
+      return null;
+   }
+
+   if (/^(true|True|TRUE)$/.test(text)) {
+      return true;
+   }
+
+   if (/^(false|False|FALSE)$/.test(text)) {
+      return false;
+   }
+
+   // Only numbers that survive a round trip, so values like `0123` or `1.50` keep their exact text
+   if (/^-?\d+(\.\d+)?$/.test(text) && String(Number(text)) === text) {
+      return Number(text);
+   }
+
+   return text;
+}
+
+/**
+ * Read secrets from a YAML file containing a mapping of key/value pairs.
+ * Non-string values are stringified and nested values are JSON-encoded.
+ * @param {{yamlPath: string}} options.yamlPath Path to the file.
+ * @returns {Promise<Record<string, string>>}
+ */
+async function fetchSecrets({ yamlPath }: { yamlPath: string }): Promise<Record<string, string>> {
+   return toStringRecord('YAML', parse(readSource('YAML', yamlPath)));
+}
+
+export { fetchSecrets, parse };
@@ -0,0 +1,364 @@
+import type { RecipientAlgorithm, RecipientHeader, RecipientKey } from './types';
+import { base64ToUint8Array, readEnv, uint8ArrayToBase64, uint8ArrayToHex } from './utils';
+
+const DATA_KEY_ALGORITHM = 'AES-GCM';
+const DATA_KEY_BITS = 256;
+const RECIPIENT_ID_BYTES = 8;
+const HKDF_INFO_PREFIX = 'gitops-secrets:recipient:';
+const RSA_MODULUS_BITS = 3072;
+const SUPPORTED_RECIPIENT_ALGORITHMS: RecipientAlgorithm[] = ['RSA-OAEP-256', 'ECDH-P256', 'X25519'];
+
+type KeyAlgorithm = RsaHashedImportParams | EcKeyImportParams | Algorithm;
+
+// Import parameters per recipient algorithm, tried in order when a PEM key doesn't say which one it is for
+const IMPORT_PARAMETERS: Record<RecipientAlgorithm, KeyAlgorithm> = {
+   'RSA-OAEP-256': { name: 'RSA-OAEP', hash: 'SHA-256' },
+   'ECDH-P256': { name: 'ECDH', namedCurve: 'P-256' },
+   X25519: { name: 'X25519' },
+};
+
+/**
+ * Check that a recipient algorithm is supported
+ *
+ * @param {string} algorithm - The algorithm name
+ * @returns {RecipientAlgorithm}
+ */
+function assertRecipientAlgorithm(algorithm: string): RecipientAlgorithm {
+   if (!SUPPORTED_RECIPIENT_ALGORITHMS.includes(algorithm as RecipientAlgorithm)) {
+      throw new Error(
+         `Unsupported recipient algorithm: ${algorithm}. Expected one of ${SUPPORTED_RECIPIENT_ALGORITHMS.join(', ')}`,
+      );
+   }
+
+   return algorithm as RecipientAlgorithm;
+}
+
+/**
+ * Name the recipient algorithm of an imported key
+ *
+ * @param {CryptoKey} key - An RSA-OAEP, ECDH P-256 or X25519 key
+ * @returns {RecipientAlgorithm}
+ */
+function keyAlgorithm(key: CryptoKey): RecipientAlgorithm {
+   const { name, namedCurve, hash } = key.algorithm as KeyAlgorithm & { namedCurve?: string; hash?: Algorithm };
+   if (name === 'RSA-OAEP' && hash?.name === 'SHA-256') {
+      return 'RSA-OAEP-256';
+   }
+   if (name === 'ECDH' && namedCurve === 'P-256') {
+      return 'ECDH-P256';
+   }
+   if (name === 'X25519') {
+      return 'X25519';
+   }
+
+   throw new Error(`Unsupported recipient key: ${name}${namedCurve ? ` ${namedCurve}` : ''}`);
+}
+
+/**
+ * Decode a PEM block, or bare base64 DER. Escaped `\n` line breaks from environment variables are accepted.
+ *
+ * @param {string} pem - The encoded key
+ * @returns {Uint8Array} - The DER bytes
+ */
+function pemToDer(pem: string): Uint8Array {
+   return base64ToUint8Array(pem.replace(/-----[A-Z ]+-----/g, '').replace(/\\n|\s/g, ''));
+}
+
+function derToPem(der: ArrayBuffer, label: string): string {
+   const lines = uint8ArrayToBase64(new Uint8Array(der)).match(/.{1,64}/g) || [];
+   return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----`;
+}
+
+function jwkParameters(jwk: JsonWebKey): KeyAlgorithm {
+   if (jwk.kty === 'RSA') {
+      return IMPORT_PARAMETERS['RSA-OAEP-256'];
+   }
+   if (jwk.kty === 'EC' && jwk.crv === 'P-256') {
+      return IMPORT_PARAMETERS['ECDH-P256'];
+   }
+   if (jwk.kty === 'OKP' && jwk.crv === 'X25519') {
+      return IMPORT_PARAMETERS.X25519;
+   }
+
+   throw new Error(`Unsupported recipient key: ${jwk.kty}${jwk.crv ? ` ${jwk.crv}` : ''}`);
+}
+
+/**
+ * Import a public or private recipient key from PEM, base64 DER or a JWK
+ *
+ * @param {RecipientKey} key - The encoded key, or a key that is already imported
+ * @param {'public' | 'private'} type - Which half of the key pair is expected
+ * @returns {Promise<CryptoKey>}
+ */
+async function importRecipientKey(key: RecipientKey, type: 'public' | 'private'): Promise<CryptoKey> {
+   if (typeof CryptoKey !== 'undefined' && key instanceof CryptoKey) {
+      if (key.type !== type) {
+         throw new Error(`Expected a ${type} recipient key but got a ${key.type} key`);
+      }
+      keyAlgorithm(key);
+      return key;
+   }
+
+   const encoded = typeof key === 'string' ? key.trim() : key;
+   const jwk = typeof encoded === 'string' && encoded.startsWith('{') ? JSON.parse(encoded) : encoded;
+   const keyUsages = (parameters: KeyAlgorithm): KeyUsage[] => {
+      if (parameters.name === 'RSA-OAEP') {
+         return [type === 'public' ? 'wrapKey' : 'unwrapKey'];
+      }
+      return type === 'public' ? [] : ['deriveBits'];
+   };
+   // Public keys are exported to compute their recipient ID; private keys are only ever used to unwrap
+   const extractable = type === 'public';
+
+   if (typeof jwk === 'object') {
+      if ((type === 'private') !== (jwk.d !== undefined)) {
+         throw new Error(`Expected a ${type} recipient key`);
+      }
+      const parameters = jwkParameters(jwk);
+      return crypto.subtle.importKey('jwk', jwk, parameters, extractable, keyUsages(parameters));
+   }
+
+   const der = pemToDer(jwk);
+   for (const parameters of Object.values(IMPORT_PARAMETERS)) {
+      try {
+         return await crypto.subtle.importKey(
+            type === 'public' ? 'spki' : 'pkcs8',
+            der,
+            parameters,
+            extractable,
+            keyUsages(parameters),
+         );
+      } catch {
+         // Not a key for this algorithm, or not supported by the runtime; try the next one
+      }
+   }
+
+   throw new Error(
+      `Could not import the ${type} recipient key. Expected a PEM encoded RSA-OAEP, ECDH P-256 or X25519 key`,
+   );
+}
+
+/**
+ * Identify a recipient without revealing its public key: the start of the SHA-256 hash of its SPKI encoding
+ *
+ * @param {CryptoKey} publicKey - The recipient's public key
+ * @returns {Promise<string>} - Hex encoded ID
+ */
+async function recipientId(publicKey: CryptoKey): Promise<string> {
+   const spki = await crypto.subtle.exportKey('spki', publicKey);
+   const digest = await crypto.subtle.digest('SHA-256', spki);
+
+   return uint8ArrayToHex(new Uint8Array(digest).subarray(0, RECIPIENT_ID_BYTES));
+}
+
+/**
+ * Derive the AES-KW key that wraps the data key for an ECDH or X25519 recipient.
+ * The shared secret is run through HKDF with the ephemeral public key as salt, so every envelope gets its own key.
+ *
+ * @param {RecipientAlgorithm} algorithm - `ECDH-P256` or `X25519`
+ * @param {CryptoKey} privateKey - The ephemeral private key when wrapping, the recipient's when unwrapping
+ * @param {CryptoKey} publicKey - The recipient's public key when wrapping, the ephemeral one when unwrapping
+ * @param {Uint8Array} ephemeralKey - The raw ephemeral public key
+ * @returns {Promise<CryptoKey>}
+ */
+async function agreementKey(
+   algorithm: RecipientAlgorithm,
+   privateKey: CryptoKey,
+   publicKey: CryptoKey,
+   ephemeralKey: Uint8Array,
+): Promise<CryptoKey> {
+   const sharedSecret = await crypto.subtle.deriveBits(
+      { name: privateKey.algorithm.name, public: publicKey } as EcdhKeyDeriveParams,
+      privateKey,
+      DATA_KEY_BITS,
+   );
+   const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+   return crypto.subtle.deriveKey(
+      {
+         name: 'HKDF',
+         hash: 'SHA-256',
+         salt: ephemeralKey,
+         info: new TextEncoder().encode(`${HKDF_INFO_PREFIX}${algorithm}`),
+      },
+      hkdfKey,
+      { name: 'AES-KW', length: DATA_KEY_BITS },
+      false,
+      ['wrapKey', 'unwrapKey'],
+   );
+}
+
+/**
+ * Wrap a data key for one recipient: with RSA-OAEP directly, or with AES-KW under a key agreed with a fresh
+ * ephemeral key pair for ECDH P-256 and X25519
+ *
+ * @param {CryptoKey} dataKey - The extractable AES-GCM data key
+ * @param {CryptoKey} publicKey - The recipient's public key
+ * @returns {Promise<RecipientHeader>}
+ */
+async function wrapForRecipient(dataKey: CryptoKey, publicKey: CryptoKey): Promise<RecipientHeader> {
+   const algorithm = keyAlgorithm(publicKey);
+   const keyId = await recipientId(publicKey);
+
+   if (algorithm === 'RSA-OAEP-256') {
+      const wrapped = await crypto.subtle.wrapKey('raw', dataKey, publicKey, { name: 'RSA-OAEP' });
+      return { algorithm, keyId, wrappedKey: uint8ArrayToBase64(new Uint8Array(wrapped)) };
+   }
+
+   const ephemeral = (await crypto.subtle.generateKey(IMPORT_PARAMETERS[algorithm], true, [
+      'deriveBits',
+   ])) as CryptoKeyPair;
+   const ephemeralKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+   const wrappingKey = await agreementKey(algorithm, ephemeral.privateKey, publicKey, ephemeralKey);
+   const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW');
+
+   return {
+      algorithm,
+      keyId,
+      ephemeralKey: uint8ArrayToBase64(ephemeralKey),
+      wrappedKey: uint8ArrayToBase64(new Uint8Array(wrapped)),
+   };
+}
+
+/**
+ * Generate a random data key and wrap it for every recipient
+ *
+ * @param {RecipientKey[]} recipients - The recipients' public keys
+ * @returns {Promise<{dataKey: CryptoKey, recipients: RecipientHeader[]}>}
+ */
+async function wrapDataKey(recipients: RecipientKey[]): Promise<{ dataKey: CryptoKey; recipients: RecipientHeader[] }> {
+   if (recipients.length === 0) {
+      throw new Error('At least one recipient public key is required');
+   }
+
+   const publicKeys = await Promise.all(recipients.map((recipient) => importRecipientKey(recipient, 'public')));
+   const dataKey = await crypto.subtle.generateKey({ name: DATA_KEY_ALGORITHM, length: DATA_KEY_BITS }, true, [
+      'encrypt',
+      'decrypt',
+   ]);
+
+   const headers: RecipientHeader[] = [];
+   for (const publicKey of publicKeys) {
+      headers.push(await wrapForRecipient(dataKey, publicKey));
+   }
+
+   return { dataKey, recipients: headers };
+}
+
+/**
+ * Unwrap the data key with a recipient's private key.
+ * Every entry for the key's algorithm is tried, so the private key doesn't need to know its own recipient ID.
+ *
+ * @param {RecipientHeader[]} recipients - The recipient entries from the envelope header
+ * @param {RecipientKey} privateKey - The recipient's private key
+ * @returns {Promise<CryptoKey>} - The AES-GCM data key
+ */
+async function unwrapDataKey(recipients: RecipientHeader[], privateKey: RecipientKey): Promise<CryptoKey> {
+   const key = await importRecipientKey(privateKey, 'private');
+   const algorithm = keyAlgorithm(key);
+
+   for (const recipient of recipients.filter((entry) => entry.algorithm === algorithm)) {
+      try {
+         const wrapped = base64ToUint8Array(recipient.wrappedKey);
+         if (algorithm === 'RSA-OAEP-256') {
+            return await crypto.subtle.unwrapKey('raw', wrapped, key, { name: 'RSA-OAEP' }, DATA_KEY_ALGORITHM, false, [
+               'decrypt',
+            ]);
+         }
+
+         const ephemeralKey = base64ToUint8Array(recipient.ephemeralKey || '');
+         const ephemeralPublicKey = await crypto.subtle.importKey(
+            'raw',
+            ephemeralKey,
+            IMPORT_PARAMETERS[algorithm],
+            false,
+            [],
+         );
+         const unwrappingKey = await agreementKey(algorithm, key, ephemeralPublicKey, ephemeralKey);
+         return await crypto.subtle.unwrapKey('raw', wrapped, unwrappingKey, 'AES-KW', DATA_KEY_ALGORITHM, false, [
+            'decrypt',
+         ]);
+      } catch {
+         // Wrapped for another recipient with the same algorithm
+      }
+   }
+
+   throw new Error('The private key does not match any recipient of this cipher text');
+}
+
+/**
+ * Compute the recipient IDs of public keys, as recorded in the envelope header
+ *
+ * @param {RecipientKey[]} recipients - The recipients' public keys
+ * @returns {Promise<string[]>}
+ */
+async function recipientKeyIds(recipients: RecipientKey[]): Promise<string[]> {
+   return Promise.all(recipients.map(async (recipient) => recipientId(await importRecipientKey(recipient, 'public'))));
+}
+
+/**
+ * Read recipient public keys from `GITOPS_SECRETS_RECIPIENTS`: a comma-separated list of PEM or base64 SPKI keys,
+ * or a JSON array of them and JWKs
+ *
+ * @returns {RecipientKey[] | null} - Null when the variable isn't set
+ */
+function recipientsFromEnv(): RecipientKey[] | null {
+   const value = readEnv('GITOPS_SECRETS_RECIPIENTS')?.trim();
+   if (!value) {
+      return null;
+   }
+   if (value.startsWith('[')) {
+      return JSON.parse(value);
+   }
+
+   return value
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+}
+
+/**
+ * Read the recipient private key from `GITOPS_SECRETS_PRIVATE_KEY`
+ *
+ * @returns {string | null} - Null when the variable isn't set
+ */
+function privateKeyFromEnv(): string | null {
+   return readEnv('GITOPS_SECRETS_PRIVATE_KEY') || null;
+}
+
+/**
+ * Generate a recipient key pair. Give the public key to the build that encrypts and the private key only to
+ * the service that decrypts.
+ *
+ * @param {RecipientAlgorithm} [algorithm] - `X25519` (default), `ECDH-P256` or `RSA-OAEP-256`
+ * @returns {Promise<{publicKey: string, privateKey: string}>} - PEM encoded SPKI public and PKCS #8 private keys
+ */
+async function generateRecipientKeyPair(
+   algorithm: RecipientAlgorithm = 'X25519',
+): Promise<{ publicKey: string; privateKey: string }> {
+   const parameters =
+      assertRecipientAlgorithm(algorithm) === 'RSA-OAEP-256'
+         ? {
+              ...IMPORT_PARAMETERS[algorithm],
+              modulusLength: RSA_MODULUS_BITS,
+              publicExponent: new Uint8Array([1, 0, 1]),
+           }
+         : IMPORT_PARAMETERS[algorithm];
+   const usages: KeyUsage[] = algorithm === 'RSA-OAEP-256' ? ['wrapKey', 'unwrapKey'] : ['deriveBits'];
+   const pair = (await crypto.subtle.generateKey(parameters, true, usages)) as CryptoKeyPair;
+
+   return {
+      publicKey: derToPem(await crypto.subtle.exportKey('spki', pair.publicKey), 'PUBLIC KEY'),
+      privateKey: derToPem(await crypto.subtle.exportKey('pkcs8', pair.privateKey), 'PRIVATE KEY'),
+   };
+}
+
+export {
+   SUPPORTED_RECIPIENT_ALGORITHMS,
+   generateRecipientKeyPair,
+   privateKeyFromEnv,
+   recipientKeyIds,
+   recipientsFromEnv,
+   unwrapDataKey,
+   wrapDataKey,
+};
@@ -0,0 +1,233 @@
+import { diffPayloads } from './diff';
+import { interpolateOptions, interpolateSecrets } from './interpolate';
+import { resolvePayload } from './providers/registry';
+import { validateSecrets } from './schema';
+import { MissingSecretError, createSecretsStore, mergeSecrets } from './secrets';
+import {
+   EnvTarget,
+   type InferSecrets,
+   type MergeOptions,
+   type RefreshOptions,
+   type RefreshingStore,
+   type SchemaLike,
+   type SecretsDiff,
+   type SecretsSource,
+   type WatchSecretsOptions,
+} from './types';
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+/**
+ * Fetch the payload from the provider and resolve references when {options.interpolate} is set
+ *
+ * @param {RefreshOptions} options - The provider specs and interpolation options
+ * @returns {Promise<Record<string, unknown>>}
+ */
+async function fetchPayload(options: RefreshOptions): Promise<Record<string, unknown>> {
+   const resolved = await resolvePayload(options.input);
+   const interpolation = interpolateOptions(options.interpolate);
+
+   return interpolation ? interpolateSecrets(resolved, interpolation) : resolved;
+}
+
+/**
+ * Decrypt the bundled fallback cipher text
+ *
+ * @param {RefreshOptions} options - The fallback, the environment to load and interpolation options
+ * @returns {Promise<Record<string, unknown>>}
+ */
+async function fallbackPayload(options: RefreshOptions): Promise<Record<string, unknown>> {
+   const store = await createSecretsStore(options.fallback as NonNullable<RefreshOptions['fallback']>, {
+      environment: options.environment,
+      interpolate: options.interpolate,
+   });
+
+   return store.toObject();
+}
+
+async function validatePayload(
+   payload: Record<string, unknown>,
+   schema?: SchemaLike,
+): Promise<Record<string, unknown>> {
+   return schema ? ((await validateSecrets(payload, schema)) as Record<string, unknown>) : payload;
+}
+
+function toError(error: unknown): Error {
+   return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Fetch secrets from a provider into a read-only store and fetch them again every {options.ttl} milliseconds,
+ * so long-running servers see rotated values without a restart.
+ * When the provider can't be reached at startup, {options.fallback} is decrypted instead and the provider is retried
+ * on the next refresh. A failed refresh keeps the current values and is reported to `error` listeners, or logged,
+ * as are errors thrown by `change` listeners.
+ * Values are replaced all at once after the new payload is validated, so readers never see a mix of old and new.
+ * Pass {options.schema} to validate every payload and type the store's keys and values.
+ *
+ * @param {RefreshOptions} options - The provider specs, fallback cipher text, TTL and optional schema
+ * @returns {Promise<RefreshingStore>} - The store
+ */
+async function createRefreshingStore(options: RefreshOptions & { schema?: undefined }): Promise<RefreshingStore>;
+async function createRefreshingStore<const S extends SchemaLike>(
+   options: RefreshOptions<S> & { schema: S },
+): Promise<RefreshingStore<InferSecrets<S>>>;
+async function createRefreshingStore(options: RefreshOptions): Promise<RefreshingStore<Record<string, unknown>>> {
+   const ttl = options.ttl ?? DEFAULT_TTL;
+   if (!Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(`Invalid TTL: ${ttl}`);
+   }
+
+   let payload: Record<string, unknown>;
+   let source: SecretsSource;
+   try {
+      payload = await validatePayload(await fetchPayload(options), options.schema);
+      source = 'provider';
+   } catch (error) {
+      if (!options.fallback) {
+         throw error;
+      }
+      console.error('Failed to fetch secrets, using the fallback:', error);
+      payload = await validatePayload(await fallbackPayload(options), options.schema);
+      source = 'fallback';
+   }
+
+   const changeListeners = new Set<(diff: SecretsDiff) => void>();
+   const errorListeners = new Set<(error: Error) => void>();
+   let pending: Promise<SecretsDiff> | null = null;
+   let timer: ReturnType<typeof setTimeout> | undefined;
+   let closed = false;
+
+   const reportError = (error: unknown, message: string) => {
+      if (errorListeners.size === 0) {
+         console.error(message, error);
+      }
+      for (const listener of errorListeners) {
+         listener(toError(error));
+      }
+   };
+
+   const refresh = () => {
+      pending ||= (async () => {
+         try {
+            const next = await validatePayload(await fetchPayload(options), options.schema);
+            const diff = diffPayloads(payload, next);
+            payload = next;
+            source = 'provider';
+            if (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) {
+               // The new values are already in place, so a failing listener must not fail the refresh
+               for (const listener of changeListeners) {
+                  try {
+                     listener(diff);
+                  } catch (error) {
+                     reportError(error, 'A secrets change listener failed:');
+                  }
+               }
+            }
+            return diff;
+         } finally {
+            pending = null;
+         }
+      })();
+      return pending;
+   };
+
+   const schedule = () => {
+      if (closed || ttl === 0) {
+         return;
+      }
+      timer = setTimeout(async () => {
+         try {
+            await refresh();
+         } catch (error) {
+            reportError(error, 'Failed to refresh secrets:');
+         }
+         schedule();
+      }, ttl);
+      // Don't keep the process alive just to refresh secrets
+      (timer as { unref?: () => void }).unref?.();
+   };
+
+   const has = (key: string) => Object.prototype.hasOwnProperty.call(payload, key) && payload[key] !== undefined;
+   const on = (event: 'change' | 'error', listener: (value: never) => void) => {
+      const listeners = (event === 'change' ? changeListeners : errorListeners) as Set<typeof listener>;
+      listeners.add(listener);
+      return () => {
+         listeners.delete(listener);
+      };
+   };
+
+   schedule();
+   return {
+      get source() {
+         return source;
+      },
+      get: (key) => (has(key) ? payload[key] : undefined),
+      require: (key) => {
+         if (!has(key)) {
+            throw new MissingSecretError(key);
+         }
+         return payload[key];
+      },
+      has,
+      toObject: () => ({ ...payload }),
+      refresh,
+      on: on as RefreshingStore['on'],
+      close: () => {
+         closed = true;
+         clearTimeout(timer);
+      },
+   };
+}
+
+/**
+ * Fetch secrets from a provider, merge them into the target environment and keep them up to date every
+ * {options.ttl} milliseconds, like `loadSecrets` for long-running servers.
+ * Each refresh is merged in one synchronous step. Keys the watcher added are removed from the environment again when
+ * they disappear from the provider; keys that were already set are never removed, even when the provider overrode them.
+ * Merge options such as `override` and `include` are passed through to `mergeSecrets`.
+ *
+ * @param {WatchSecretsOptions} options - The refresh options, merge policy and target
+ * @returns {Promise<RefreshingStore>} - The underlying store; `close()` stops watching
+ */
+async function watchSecrets(options: WatchSecretsOptions & { schema?: undefined }): Promise<RefreshingStore>;
+async function watchSecrets<const S extends SchemaLike>(
+   options: WatchSecretsOptions<S> & { schema: S },
+): Promise<RefreshingStore<InferSecrets<S>>>;
+async function watchSecrets(options: WatchSecretsOptions): Promise<RefreshingStore<Record<string, unknown>>> {
+   const {
+      target = EnvTarget.PROCESS,
+      override,
+      include,
+      exclude,
+      prefix,
+      stripPrefix,
+      addPrefix,
+      flatten,
+      ...refreshOptions
+   } = options;
+   const mergeOptions: MergeOptions = { override, include, exclude, prefix, stripPrefix, addPrefix, flatten };
+   const store = (await createRefreshingStore(
+      refreshOptions as RefreshOptions & { schema?: undefined },
+   )) as RefreshingStore<Record<string, unknown>>;
+
+   let owned = new Set<string>();
+   const apply = () => {
+      const payload = store.toObject();
+      const plan = mergeSecrets(payload, target, { ...mergeOptions, dryRun: true });
+      const env = mergeSecrets(payload, target, mergeOptions);
+      const planned = new Set([...plan.added, ...plan.changed, ...plan.unchanged, ...plan.skipped]);
+      for (const key of owned) {
+         if (!planned.has(key)) {
+            Reflect.deleteProperty(env, key);
+         }
+      }
+      owned = new Set([...plan.added, ...[...plan.changed, ...plan.unchanged].filter((key) => owned.has(key))]);
+   };
+
+   apply();
+   store.on('change', apply);
+   return store;
+}
+
+export { createRefreshingStore, watchSecrets };
@@ -0,0 +1,121 @@
+import type { InferSecrets, SchemaField, SchemaLike, SecretsSchema, StandardSchemaV1 } from './types';
+
+function isStandardSchema(schema: SchemaLike): schema is StandardSchemaV1 {
+   return typeof (schema as StandardSchemaV1)['~standard']?.validate === 'function';
+}
+
+/**
+ * Check a single value against a built-in schema field
+ *
+ * @param {string} key - The secret name, used in issue messages
+ * @param {unknown} value - The raw value
+ * @param {SchemaField} field - The field definition
+ * @returns {{ value?: unknown, issue?: string }}
+ */
+function validateField(key: string, value: unknown, field: SchemaField): { value?: unknown; issue?: string } {
+   const { type, optional = false, pattern } = typeof field === 'string' ? { type: field } : field;
+
+   if (value === undefined || value === null || value === '') {
+      return optional ? { value: undefined } : { issue: `${key} is required` };
+   }
+
+   const text = typeof value === 'string' ? value : JSON.stringify(value);
+   if (pattern && !pattern.test(text)) {
+      return { issue: `${key} does not match ${pattern}` };
+   }
+
+   switch (type) {
+      case 'string':
+         return typeof value === 'string' ? { value } : { issue: `${key} must be a string` };
+      case 'number': {
+         const number = typeof value === 'number' ? value : Number(text);
+         return Number.isFinite(number) && text.trim() !== ''
+            ? { value: number }
+            : { issue: `${key} must be a number` };
+      }
+      case 'boolean':
+         if (value === true || text === 'true' || text === '1') {
+            return { value: true };
+         }
+         if (value === false || text === 'false' || text === '0') {
+            return { value: false };
+         }
+         return { issue: `${key} must be a boolean` };
+      case 'url':
+         try {
+            new URL(text);
+            return { value: text };
+         } catch {
+            return { issue: `${key} must be a URL` };
+         }
+      case 'json':
+         if (typeof value !== 'string') {
+            return { value };
+         }
+         try {
+            return { value: JSON.parse(value) };
+         } catch {
+            return { issue: `${key} must be valid JSON` };
+         }
+      default:
+         return { issue: `${key} has unsupported schema type '${type}'` };
+   }
+}
+
+function validateBuiltIn(payload: Record<string, unknown>, schema: SecretsSchema) {
+   const output: Record<string, unknown> = { ...payload };
+   const issues: string[] = [];
+
+   for (const [key, field] of Object.entries(schema)) {
+      const result = validateField(key, payload[key], field);
+      if (result.issue) {
+         issues.push(result.issue);
+      } else if (result.value === undefined) {
+         delete output[key];
+      } else {
+         output[key] = result.value;
+      }
+   }
+
+   return { output, issues };
+}
+
+/**
+ * Validate secrets against a built-in schema or any Standard Schema validator (zod, valibot, arktype, ...)
+ *
+ * @param {Record<string, unknown>} payload - The decrypted or fetched secrets
+ * @param {SchemaLike} schema - The schema to validate against
+ * @returns {Promise<InferSecrets<S>>} - The validated, typed secrets
+ */
+async function validateSecrets<const S extends SchemaLike>(
+   payload: Record<string, unknown>,
+   schema: S,
+): Promise<InferSecrets<S>> {
+   let issues: string[];
+   let output: unknown;
+
+   if (isStandardSchema(schema)) {
+      const result = await schema['~standard'].validate(payload);
+      if (result.issues) {
+         issues = result.issues.map((issue) => {
+            const path = (issue.path || [])
+               .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+               .join('.');
+            return path ? `${path}: ${issue.message}` : issue.message;
+         });
+      } else {
+         issues = [];
+         output = result.value;
+      }
+   } else {
+      ({ output, issues } = validateBuiltIn(payload, schema));
+   }
+
+   if (issues.length > 0) {
+      throw new Error(`Secrets failed schema validation: ${issues.join('; ')}`);
+   }
+
+   return output as InferSecrets<S>;
+}
+
+export { validateSecrets };
@@ -1,101 +1,793 @@
 import fs from 'node:fs';
 import path from 'node:path';
+import { assertEnvironmentName } from './environments';
+import { interpolateOptions, interpolateSecrets } from './interpolate';
+import * as dotenv from './providers/dotenv';
+import * as jsonFile from './providers/json-file';
+import { registerProvider, resolvePayload } from './providers/registry';
+import * as yamlFile from './providers/yaml-file';
+import { validateSecrets } from './schema';
 import * as secrets from './secrets';
-import { EnvTarget } from './types';
+import { isDocument } from './structured';
+import {
+   type BuildMetadata,
+   type BuildOptions,
+   type CipherTextInfo,
+   type EncryptOptions,
+   type EncryptToFileOptions,
+   type EnvObject,
+   EnvTarget,
+   type FallbackCache,
+   type InferSecrets,
+   type KeyOptions,
+   type LoadSecretsOptions,
+   type MergeDiff,
+   type MergeOptions,
+   type ModuleFormat,
+   type SchemaLike,
+   type SecretsBundles,
+   type SecretsDiff,
+   type SecretsInput,
+   type VerifyOptions,
+   type VerifyResult,
+} from './types';
+
+type SecretTypes = {
+   /** Lines declaring `Secrets`, `SecretKey` and `Environment` */
+   lines: string[];
+   /** Property names of `Secrets`, quoted where needed and marked optional when missing from some bundles */
+   names: string[];
+};
+
+type DecryptedFile<T> = T & {
+   mergeSecrets: {
+      (options?: MergeOptions & { dryRun?: false }): EnvObject;
+      (options: MergeOptions & { dryRun: true }): MergeDiff;
+   };
+};
 
 const SECRETS_FOLDER = path.join(__dirname, '../.secrets');
 const DEFAULT_JS_PATH = path.join(SECRETS_FOLDER, '.secrets.enc.js');
 const DEFAULT_JSON_PATH = path.join(SECRETS_FOLDER, '.secrets.enc.json');
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const GENERATED_HEADER = '// This file was auto-generated by @jacobwolf/gitops-secrets';
+const DEFAULT_IMPORT_SPECIFIER = '@jacobwolf/gitops-secrets/no-fs';
+const MODULE_FORMATS: ModuleFormat[] = ['esm', 'cjs', 'ts', 'json', 'dual'];
+const EXTENSION_FORMATS: Record<string, ModuleFormat> = {
+   '.mjs': 'esm',
+   '.cjs': 'cjs',
+   '.ts': 'ts',
+   '.mts': 'ts',
+   '.cts': 'ts',
+   '.json': 'json',
+};
+// Commit SHA variables set by GitHub Actions, Vercel, GitLab CI, Netlify and CircleCI
+const COMMIT_VARIABLES = ['GITHUB_SHA', 'VERCEL_GIT_COMMIT_SHA', 'CI_COMMIT_SHA', 'COMMIT_REF', 'CIRCLE_SHA1'];
+const MODULE_CIPHER_TEXT_PATTERN = /^(?:export )?const CIPHER_TEXTS?(?:: [^=]+)? = (.*);$/m;
 
 if (!fs.existsSync(SECRETS_FOLDER)) {
    fs.mkdirSync(SECRETS_FOLDER, { recursive: true });
 }
 
+// Local file providers need node:fs, so they are only registered where file system access is available
+registerProvider({ name: 'dotenv', fetchSecrets: dotenv.fetchSecrets });
+registerProvider({ name: 'jsonFile', fetchSecrets: jsonFile.fetchSecrets });
+registerProvider({ name: 'yamlFile', fetchSecrets: yamlFile.fetchSecrets });
+
+/**
+ * Fetch the payload, resolve references when {options.interpolate} is set, and validate it against {options.schema}
+ * @param {SecretsInput} input
+ * @param {EncryptToFileOptions} options
+ * @returns {Promise<Record<string, unknown>>} - The payload to encrypt
+ */
+async function preparePayload(input: SecretsInput, options: EncryptToFileOptions): Promise<Record<string, unknown>> {
+   const resolved = await resolvePayload(input);
+   const interpolation = interpolateOptions(options.interpolate);
+   const payload = interpolation ? interpolateSecrets(resolved, interpolation) : resolved;
+
+   if (options.schema) {
+      await validateSecrets(payload, options.schema);
+   }
+
+   return payload;
+}
+
+/**
+ * Collect the build metadata recorded in the envelope header.
+ * `true` records the commit from the CI environment and the payload's key names; explicit fields take precedence.
+ * @param {Record<string, unknown>} payload - The payload being encrypted
+ * @param {boolean | BuildMetadata} [option] - The `metadata` build option
+ * @param {string} [environment] - Environment name, always recorded for per-environment bundles
+ * @returns {BuildMetadata | undefined}
+ */
+function buildMetadata(
+   payload: Record<string, unknown>,
+   option?: boolean | BuildMetadata,
+   environment?: string,
+): BuildMetadata | undefined {
+   const metadata: BuildMetadata = environment ? { environment } : {};
+   if (option) {
+      const commit = COMMIT_VARIABLES.map((variable) => process.env[variable]).find(Boolean);
+      if (commit) {
+         metadata.commit = commit;
+      }
+      metadata.keys = Object.keys(payload);
+      Object.assign(metadata, option === true ? {} : option);
+   }
+
+   return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
 /**
  * Encapsulate encrypted secrets in a JS module for easy runtime access.
  * Use {options.path} to output module locally for when package level storage or non-literal imports are disallowed.
  * Use {options.cipherTextOnly} to limit the JS file to only exporting `CIPHER_TEXT`.
- * @param {<Record<string, any>>} payload
- * @param {{path: string | null, cipherTextOnly: boolean}} options
+ * Otherwise the module also exports `loadSecrets` and `createSecretsStore`.
+ * Pass provider specs created with `fromProvider` instead of a payload to fetch secrets as part of the build.
+ * Use {options.schema} to fail the build when secrets are missing or invalid.
+ * Use {options.declarations} to also write a sibling `.d.ts` declaring the module's exports and secret key names.
+ * Use {options.interpolate} to resolve `${KEY}` references against the payload and `process.env` before encrypting.
+ * Use {options.metadata} to record the commit, key names and an environment in the authenticated envelope header.
+ * Use {options.compression} to gzip or deflate the payload before encrypting it.
+ * Use {options.recipients} to encrypt for public keys instead of the master key.
+ * When the module already exists and its secrets and encryption options didn't change, its cipher text is kept and
+ * the file isn't rewritten.
+ * @param {SecretsInput} input
+ * @param {{path: string | null, cipherTextOnly: boolean, schema?: SchemaLike, declarations?: boolean, interpolate?: boolean, metadata?: boolean | BuildMetadata, compression?: Compression, recipients?: RecipientKey[]}} options
+ * @returns {Promise<boolean>} - Whether any file changed
+ */
+async function build(
+   input: SecretsInput,
+   options: BuildOptions = { path: null, cipherTextOnly: false },
+): Promise<boolean> {
+   const payload = await preparePayload(input, options);
+   const filePath = options.path ? path.resolve(options.path) : DEFAULT_JS_PATH;
+   const previous = previousCipherText(filePath, options);
+   const cipherText = await secrets.encrypt(JSON.stringify(payload), {
+      metadata: buildMetadata(payload, options.metadata),
+      compression: options.compression,
+      recipients: options.recipients,
+      previous: typeof previous === 'string' ? previous : undefined,
+   });
+
+   return writeModule(filePath, cipherText, [payload], options);
+}
+
+/**
+ * Encrypt one bundle per environment into a single JS module exporting `CIPHER_TEXTS`.
+ * Each bundle is encrypted under `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` when set, otherwise the shared master key.
+ * The module's `loadSecrets({ environment })` picks a bundle, falling back to `GITOPS_SECRETS_ENV`, `VERCEL_ENV`
+ * and `NODE_ENV`. Each bundle records its environment name in its metadata, so bundles can't be swapped.
+ * Options are the same as for `build` and apply to every environment. Bundles that didn't change are kept.
+ * @param {Record<string, SecretsInput>} environments - Payload, or provider specs created with `fromProvider`, per environment name
+ * @param {{path: string | null, cipherTextOnly: boolean, schema?: SchemaLike, declarations?: boolean}} options
+ * @returns {Promise<boolean>} - Whether any file changed
  */
-// biome-ignore lint/suspicious/noExplicitAny: Want to keep this flexible
-async function build(payload: Record<string, any>, options = { path: null as string | null, cipherTextOnly: false }) {
-   const cipherText = await secrets.encrypt(JSON.stringify(payload));
+async function buildEnvironments(
+   environments: Record<string, SecretsInput>,
+   options: BuildOptions = { path: null, cipherTextOnly: false },
+): Promise<boolean> {
+   const names = Object.keys(environments).map(assertEnvironmentName);
+   if (names.length === 0) {
+      throw new Error('At least one environment is required');
+   }
+
+   const payloads = await Promise.all(
+      names.map(async (name) => {
+         try {
+            return await preparePayload(environments[name], options);
+         } catch (error) {
+            throw new Error(`Environment '${name}' failed: ${error instanceof Error ? error.message : String(error)}`);
+         }
+      }),
+   );
+
    const filePath = options.path ? path.resolve(options.path) : DEFAULT_JS_PATH;
-   const packageType = process.env.npm_package_type === 'module' ? 'esm' : 'cjs';
-   const format = filePath === DEFAULT_JS_PATH ? 'cjs' : packageType;
-   const lines = ['This file was auto-generated by @jacobwolf/gitops-secrets'];
-
-   if (format === 'esm') {
-      if (!options.cipherTextOnly) {
-         lines.push(`import secrets from '@jacobwolf/gitops-secrets/no-fs';`);
-         lines.push(`const CIPHER_TEXT = ${JSON.stringify(cipherText)};`);
-         lines.push('const loadSecrets = () => secrets.loadSecretsFromCipher(CIPHER_TEXT);');
-         lines.push('export { CIPHER_TEXT, loadSecrets };');
-      } else {
-         lines.push(`const CIPHER_TEXT = ${JSON.stringify(cipherText)};`);
-         lines.push('export { CIPHER_TEXT };');
+   const previous = previousCipherText(filePath, options);
+   const bundles: SecretsBundles = {};
+   for (const [index, name] of names.entries()) {
+      bundles[name] = await secrets.encrypt(JSON.stringify(payloads[index]), {
+         environment: name,
+         metadata: buildMetadata(payloads[index], options.metadata, name),
+         compression: options.compression,
+         recipients: options.recipients,
+         previous: typeof previous === 'object' ? previous[name] : undefined,
+      });
+   }
+
+   return writeModule(filePath, bundles, payloads, options, names);
+}
+
+/**
+ * Pick the output format from {format}, then the file extension, then `npm_package_type`.
+ * The default path is loaded with `require`, so it is always CommonJS.
+ * @param {string} filePath - Resolved output path
+ * @param {ModuleFormat} [format] - Explicit format
+ * @returns {ModuleFormat}
+ */
+function moduleFormat(filePath: string, format?: ModuleFormat): ModuleFormat {
+   if (format && !MODULE_FORMATS.includes(format)) {
+      throw new Error(`Unsupported module format: ${format}. Expected one of ${MODULE_FORMATS.join(', ')}`);
+   }
+   if (filePath === DEFAULT_JS_PATH) {
+      if (format && format !== 'cjs') {
+         throw new Error(`The default path is loaded with require and only supports the cjs format, got '${format}'`);
       }
+      return 'cjs';
+   }
+
+   return (
+      format || EXTENSION_FORMATS[path.extname(filePath)] || (process.env.npm_package_type === 'module' ? 'esm' : 'cjs')
+   );
+}
+
+/**
+ * Paths of the `.mjs` and `.cjs` modules written for the `dual` format, e.g. `secrets.js` -> `secrets.mjs`, `secrets.cjs`
+ * @param {string} filePath - Resolved output path
+ * @returns {[string, string]}
+ */
+function dualPaths(filePath: string): [string, string] {
+   const extension = path.extname(filePath);
+   const base = ['.js', '.mjs', '.cjs'].includes(extension)
+      ? filePath.substring(0, filePath.length - extension.length)
+      : filePath;
+   return [`${base}.mjs`, `${base}.cjs`];
+}
+
+/**
+ * Read the cipher text of the module written to {filePath} last time, so secrets that didn't change keep it
+ * @param {string} filePath - Resolved output path
+ * @param {BuildOptions} options - The build options
+ * @returns {string | SecretsBundles | undefined} - Undefined when there is no module or it can't be read
+ */
+function previousCipherText(filePath: string, options: BuildOptions): string | SecretsBundles | undefined {
+   const modulePath = moduleFormat(filePath, options.format) === 'dual' ? dualPaths(filePath)[0] : filePath;
+
+   try {
+      return fs.existsSync(modulePath) ? readCipherText(modulePath) : undefined;
+   } catch {
+      return undefined;
    }
+}
+
+/**
+ * Write the module exporting a cipher text, or a map of cipher text per environment, `loadSecrets` and
+ * `createSecretsStore`, plus declarations when {options.declarations} is set
+ * @param {string} filePath - Resolved output path
+ * @param {string | SecretsBundles} cipherText - A single cipher text or one per environment
+ * @param {Record<string, unknown>[]} payloads - The secrets, one per bundle, used for type declarations
+ * @param {BuildOptions} options - The build options
+ * @param {string[]} [environments] - Environment names when the module holds one bundle per environment
+ * @returns {boolean} - Whether any file changed
+ */
+function writeModule(
+   filePath: string,
+   cipherText: string | SecretsBundles,
+   payloads: Record<string, unknown>[],
+   options: BuildOptions,
+   environments?: string[],
+): boolean {
+   const format = moduleFormat(filePath, options.format);
+   const cipherTextOnly = Boolean(options.cipherTextOnly);
+   const importSpecifier = options.importSpecifier || DEFAULT_IMPORT_SPECIFIER;
 
-   if (format === 'cjs') {
-      if (!options.cipherTextOnly) {
-         lines.push(`const secrets = require('@jacobwolf/gitops-secrets/no-fs');`);
-         lines.push(`const CIPHER_TEXT = ${JSON.stringify(cipherText)};`);
-         lines.push('const loadSecrets = () => secrets.loadSecretsFromCipher(CIPHER_TEXT);');
-         lines.push('module.exports = { CIPHER_TEXT, loadSecrets };');
-      } else {
-         lines.push(`const CIPHER_TEXT = ${JSON.stringify(cipherText)};`);
-         lines.push('module.exports = { CIPHER_TEXT };');
+   if (format === 'json') {
+      const exportName = typeof cipherText === 'string' ? 'CIPHER_TEXT' : 'CIPHER_TEXTS';
+      return writeFile(filePath, `${JSON.stringify({ [exportName]: cipherText }, null, 2)}\n`);
+   }
+
+   if (format === 'ts') {
+      const types = secretTypes(payloads, environments);
+      return writeFile(filePath, typeScriptSource(cipherText, types, cipherTextOnly, importSpecifier, environments));
+   }
+
+   const modules: [string, 'esm' | 'cjs'][] =
+      format === 'dual'
+         ? [
+              [dualPaths(filePath)[0], 'esm'],
+              [dualPaths(filePath)[1], 'cjs'],
+           ]
+         : [[filePath, format]];
+
+   let changed = false;
+   for (const [modulePath, moduleType] of modules) {
+      changed =
+         writeFile(modulePath, javaScriptSource(moduleType, cipherText, cipherTextOnly, importSpecifier)) || changed;
+      if (options.declarations) {
+         changed =
+            writeFile(
+               declarationPath(modulePath),
+               buildDeclarations(payloads, cipherTextOnly, importSpecifier, environments),
+            ) || changed;
       }
    }
 
-   writeFile(filePath, lines.join('\n'));
+   return changed;
+}
+
+/**
+ * Source of an ES or CommonJS module exporting the cipher text, `loadSecrets` and `createSecretsStore`
+ * @param {'esm' | 'cjs'} format - The module syntax
+ * @param {string | SecretsBundles} cipherText - A single cipher text or one per environment
+ * @param {boolean} cipherTextOnly - Only export the cipher text
+ * @param {string} importSpecifier - Module the runtime is imported from
+ * @returns {string}
+ */
+function javaScriptSource(
+   format: 'esm' | 'cjs',
+   cipherText: string | SecretsBundles,
+   cipherTextOnly: boolean,
+   importSpecifier: string,
+): string {
+   const exportName = typeof cipherText === 'string' ? 'CIPHER_TEXT' : 'CIPHER_TEXTS';
+   const exportNames = cipherTextOnly ? [exportName] : [exportName, 'loadSecrets', 'createSecretsStore'];
+   const lines = [GENERATED_HEADER];
+
+   if (!cipherTextOnly) {
+      lines.push(
+         format === 'esm'
+            ? `import secrets from ${JSON.stringify(importSpecifier)};`
+            : `const secrets = require(${JSON.stringify(importSpecifier)});`,
+      );
+   }
+   lines.push(`const ${exportName} = ${JSON.stringify(cipherText)};`);
+   if (!cipherTextOnly) {
+      lines.push(`const loadSecrets = (options) => secrets.loadSecrets(${exportName}, undefined, options);`);
+      lines.push(`const createSecretsStore = (options) => secrets.createSecretsStore(${exportName}, options);`);
+   }
+   lines.push(
+      format === 'esm' ? `export { ${exportNames.join(', ')} };` : `module.exports = { ${exportNames.join(', ')} };`,
+   );
+
+   return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Path of the declaration file TypeScript resolves for a generated module, e.g. `secrets.mjs` -> `secrets.d.mts`.
+ * @param {string} filePath - Path of the generated JS module
+ * @returns {string}
+ */
+function declarationPath(filePath: string): string {
+   const extension = path.extname(filePath);
+   const base = filePath.substring(0, filePath.length - extension.length);
+   const declarationExtensions: Record<string, string> = { '.mjs': '.d.mts', '.cjs': '.d.cts' };
+   return `${base}${declarationExtensions[extension] || '.d.ts'}`;
+}
+
+function propertyName(key: string): string {
+   return IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * TypeScript type of a decrypted JSON value
+ * @param {unknown} value
+ * @returns {string}
+ */
+function declarationType(value: unknown): string {
+   if (value === null) {
+      return 'null';
+   }
+   if (Array.isArray(value)) {
+      const itemTypes = [...new Set(value.map(declarationType))];
+      return itemTypes.length === 0 ? 'unknown[]' : `Array<${itemTypes.join(' | ')}>`;
+   }
+   if (typeof value === 'object') {
+      const properties = Object.entries(value as Record<string, unknown>).map(
+         ([key, child]) => `${propertyName(key)}: ${declarationType(child)}`,
+      );
+      return properties.length === 0 ? 'Record<string, never>' : `{ ${properties.join('; ')} }`;
+   }
+
+   return typeof value === 'number' || typeof value === 'boolean' ? typeof value : 'string';
+}
+
+/**
+ * The `Secrets`, `SecretKey` and `Environment` types shared by declarations and TypeScript modules.
+ * With several environments, keys missing from some of them are declared optional.
+ * @param {Record<string, unknown>[]} payloads - The secrets, one per bundle
+ * @param {string[]} [environments] - Environment names when the module holds one bundle per environment
+ * @returns {SecretTypes}
+ */
+function secretTypes(payloads: Record<string, unknown>[], environments?: string[]): SecretTypes {
+   const keys = [...new Set(payloads.flatMap((payload) => Object.keys(payload)))];
+   const properties = keys.map((key) => {
+      const present = payloads.filter((payload) => Object.prototype.hasOwnProperty.call(payload, key));
+      const types = [...new Set(present.map((payload) => declarationType(payload[key])))];
+      return {
+         name: `${propertyName(key)}${present.length === payloads.length ? '' : '?'}`,
+         type: types.join(' | '),
+      };
+   });
+
+   const lines = ['export type Secrets = {'];
+   lines.push(...properties.map(({ name, type }) => `   readonly ${name}: ${type};`));
+   lines.push('};');
+   lines.push('export type SecretKey = keyof Secrets;');
+   if (environments) {
+      lines.push(`export type Environment = ${environments.map((name) => JSON.stringify(name)).join(' | ')};`);
+   }
+
+   return { lines, names: properties.map(({ name }) => name) };
+}
+
+/**
+ * Augment `process.env` with the secret key names, which `loadSecrets` always writes as strings
+ * @param {string[]} names - Property names from `secretTypes`
+ * @returns {string[]}
+ */
+function processEnvDeclaration(names: string[]): string[] {
+   return [
+      'declare global {',
+      '   namespace NodeJS {',
+      '      interface ProcessEnv {',
+      ...names.map((name) => `         ${name}: string;`),
+      '      }',
+      '   }',
+      '}',
+   ];
+}
+
+/**
+ * Declarations for a generated module. Only key names and value types are written, never values.
+ * `Secrets` keeps native types as returned by the store; `process.env` only ever holds strings.
+ * @param {Record<string, unknown>[]} payloads - The secrets, one per bundle
+ * @param {boolean} cipherTextOnly - Whether the module only exports the cipher text
+ * @param {string} importSpecifier - Module the runtime types are imported from
+ * @param {string[]} [environments] - Environment names when the module holds one bundle per environment
+ * @returns {string}
+ */
+function buildDeclarations(
+   payloads: Record<string, unknown>[],
+   cipherTextOnly: boolean,
+   importSpecifier: string,
+   environments?: string[],
+): string {
+   const types = secretTypes(payloads, environments);
+   const lines = [GENERATED_HEADER, ''];
+
+   if (!cipherTextOnly) {
+      lines.push(`import type { MergeDiff, MergeOptions, SecretsStore } from ${JSON.stringify(importSpecifier)};`, '');
+   }
+
+   lines.push(...types.lines);
+   lines.push('');
+   lines.push(
+      environments
+         ? 'export declare const CIPHER_TEXTS: Record<Environment, string>;'
+         : 'export declare const CIPHER_TEXT: string;',
+   );
+
+   if (!cipherTextOnly) {
+      lines.push(
+         `export type LoadOptions = MergeOptions${environments ? ' & { environment?: Environment }' : ''};`,
+         '',
+         'export declare function loadSecrets(options: LoadOptions & { dryRun: true }): Promise<MergeDiff>;',
+         'export declare function loadSecrets(',
+         '   options?: LoadOptions,',
+         '): Promise<{ readonly [K in keyof Secrets]: string } & Record<string, string | undefined>>;',
+         `export declare function createSecretsStore(${
+            environments ? 'options?: { environment?: Environment }' : ''
+         }): Promise<SecretsStore<Secrets>>;`,
+         '',
+      );
+      lines.push(...processEnvDeclaration(types.names));
+   }
+
+   return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Source of a TypeScript module exporting the cipher text, the secret types, `loadSecrets` and `createSecretsStore`
+ * @param {string | SecretsBundles} cipherText - A single cipher text or one per environment
+ * @param {SecretTypes} types - The types returned by `secretTypes`
+ * @param {boolean} cipherTextOnly - Only export the cipher text and types
+ * @param {string} importSpecifier - Module the runtime is imported from
+ * @param {string[]} [environments] - Environment names when the module holds one bundle per environment
+ * @returns {string}
+ */
+function typeScriptSource(
+   cipherText: string | SecretsBundles,
+   types: SecretTypes,
+   cipherTextOnly: boolean,
+   importSpecifier: string,
+   environments?: string[],
+): string {
+   const exportName = environments ? 'CIPHER_TEXTS' : 'CIPHER_TEXT';
+   const lines = [GENERATED_HEADER, ''];
+
+   if (!cipherTextOnly) {
+      lines.push(
+         `import secrets, { type MergeDiff, type MergeOptions, type SecretsStore } from ${JSON.stringify(importSpecifier)};`,
+         '',
+      );
+   }
+
+   lines.push(...types.lines);
+   lines.push('');
+   lines.push(
+      `export const ${exportName}: ${environments ? 'Record<Environment, string>' : 'string'} = ${JSON.stringify(cipherText)};`,
+   );
+
+   if (!cipherTextOnly) {
+      const storeOptions = environments ? 'options?: { environment?: Environment }' : '';
+      lines.push(
+         `export type LoadOptions = MergeOptions${environments ? ' & { environment?: Environment }' : ''};`,
+         '',
+         'export function loadSecrets(options: LoadOptions & { dryRun: true }): Promise<MergeDiff>;',
+         'export function loadSecrets(',
+         '   options?: LoadOptions,',
+         '): Promise<{ readonly [K in keyof Secrets]: string } & Record<string, string | undefined>>;',
+         'export function loadSecrets(options?: LoadOptions): Promise<unknown> {',
+         `   return secrets.loadSecrets(${exportName}, undefined, options);`,
+         '}',
+         '',
+         `export function createSecretsStore(${storeOptions}): Promise<SecretsStore<Secrets>> {`,
+         `   return secrets.createSecretsStore(${exportName}${environments ? ', options' : ''}) as unknown as Promise<SecretsStore<Secrets>>;`,
+         '}',
+         '',
+      );
+      lines.push(...processEnvDeclaration(types.names));
+   }
+
+   return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Fetch, validate and encrypt a payload without writing it anywhere, e.g. to inline it with a bundler plugin.
+ * Options are the same as for `encryptToFile`. Pass the cipher text built last time as {options.previous} to get it
+ * back when nothing changed.
+ * @param {SecretsInput} input
+ * @param {Omit<EncryptToFileOptions, 'path' | 'structured'> & Pick<EncryptOptions, 'previous'>} [options]
+ * @returns {Promise<string>} - The cipher text
+ */
+async function buildCipherText(
+   input: SecretsInput,
+   options: Omit<EncryptToFileOptions, 'path' | 'structured'> & Pick<EncryptOptions, 'previous'> = {},
+): Promise<string> {
+   const payload = await preparePayload(input, options);
+   return secrets.encrypt(JSON.stringify(payload), {
+      metadata: buildMetadata(payload, options.metadata),
+      compression: options.compression,
+      recipients: options.recipients,
+      previous: options.previous,
+   });
 }
 
 /**
  * Encrypt JSON-serializable payload to a static file.
- * @param {<Record<string, any>>} payload
- * @param {{path: string | null}} [options={path: null}]
+ * Pass provider specs instead of a payload to fetch secrets first.
+ * Use {options.structured} to keep key names readable and encrypt each value separately, so diffs show which
+ * secrets changed. Values that didn't change since the file was last written keep their cipher text, as long as
+ * the existing file decrypts with the current key. Otherwise the existing file is kept as is when its secrets and
+ * encryption options didn't change.
+ * @param {SecretsInput} input
+ * @param {{path: string | null, schema?: SchemaLike, interpolate?: boolean, metadata?: boolean | BuildMetadata, compression?: Compression, recipients?: RecipientKey[], structured?: boolean}} [options={path: null}]
+ * @returns {Promise<boolean>} - Whether the file changed
  */
-// biome-ignore lint/suspicious/noExplicitAny: Want to keep this flexible
-async function encryptToFile(payload: Record<string, any>, options = { path: null as string | null }) {
-   const cipherText = await secrets.encrypt(JSON.stringify(payload));
+async function encryptToFile(input: SecretsInput, options: EncryptToFileOptions = { path: null }): Promise<boolean> {
    const filePath = options.path ? path.resolve(options.path) : DEFAULT_JSON_PATH;
-   writeFile(filePath, cipherText);
+   const previous = fs.existsSync(filePath) ? fs.readFileSync(filePath, { encoding: 'utf-8' }) : undefined;
+   if (!options.structured) {
+      return writeFile(filePath, await buildCipherText(input, { ...options, previous: previous?.trim() }));
+   }
+
+   if (options.compression) {
+      throw new Error('Structured files encrypt each value separately and cannot be compressed');
+   }
+   const payload = await preparePayload(input, options);
+   const document = await secrets.encryptStructured(payload, {
+      metadata: buildMetadata(payload, options.metadata),
+      recipients: options.recipients,
+      previous,
+   });
+   return writeFile(filePath, document);
 }
 
 /**
  * Decrypt JSON payload to object with option to merge with process.env.
- * @param {string} filePath
+ * Pass {options.schema} to validate the payload and get it back typed.
+ * @param {string} [filePath]
+ * @param {{schema?: SchemaLike}} [options]
  * @returns
  */
-async function decryptFromFile(filePath: string) {
+// biome-ignore lint/suspicious/noExplicitAny: Payloads are untyped without a schema
+async function decryptFromFile(filePath?: string, options?: { schema?: undefined }): Promise<DecryptedFile<any>>;
+async function decryptFromFile<const S extends SchemaLike>(
+   filePath: string | undefined,
+   options: { schema: S },
+): Promise<DecryptedFile<InferSecrets<S>>>;
+async function decryptFromFile(filePath?: string, options: { schema?: SchemaLike } = {}) {
    const newFilePath = filePath ? path.resolve(filePath) : DEFAULT_JSON_PATH;
 
    try {
       const cipherText = fs.readFileSync(newFilePath, { encoding: 'utf-8' });
       const decryptedText = await secrets.decrypt(cipherText);
-      const payload = JSON.parse(decryptedText);
+      const decrypted = JSON.parse(decryptedText);
+      const payload = options.schema ? await validateSecrets(decrypted, options.schema) : decrypted;
       return {
          ...payload,
-         mergeSecrets: () => secrets.mergeSecrets(payload, EnvTarget.PROCESS),
+         mergeSecrets: (mergeOptions?: MergeOptions) =>
+            secrets.mergeSecrets(decrypted, EnvTarget.PROCESS, mergeOptions),
       };
    } catch (error) {
       throw new Error(`Failed to decrypt file ${newFilePath}: ${error}`);
    }
 }
 
-function writeFile(filePath: string, fileContents: string) {
+/**
+ * Re-encrypt a JSON file in place under the current master key.
+ * Structured files get a new data key, so every value changes.
+ * @param {string} [filePath]
+ */
+async function reencryptFile(filePath?: string) {
+   const newFilePath = filePath ? path.resolve(filePath) : DEFAULT_JSON_PATH;
+
+   let cipherText: string;
    try {
+      cipherText = await secrets.reencrypt(fs.readFileSync(newFilePath, { encoding: 'utf-8' }));
+   } catch (error) {
+      throw new Error(`Failed to re-encrypt file ${newFilePath}: ${error}`);
+   }
+
+   writeFile(newFilePath, cipherText);
+}
+
+/**
+ * Read the cipher text from an encrypted JSON file, or the cipher text or bundles from a module written by `build`
+ * in any format
+ * @param {string} filePath - Resolved path of the file
+ * @returns {string | SecretsBundles}
+ */
+function readCipherText(filePath: string): string | SecretsBundles {
+   const contents = fs.readFileSync(filePath, { encoding: 'utf-8' });
+   if (path.extname(filePath) === '.json') {
+      // Raw cipher text or a structured document written by `encryptToFile`, or a module written by `build`
+      // in the json format
+      if (!contents.trimStart().startsWith('{')) {
+         return contents.trim();
+      }
+      if (isDocument(contents)) {
+         return contents;
+      }
+      const module = JSON.parse(contents);
+      if (!module.CIPHER_TEXT && !module.CIPHER_TEXTS) {
+         throw new Error('No CIPHER_TEXT or CIPHER_TEXTS export found');
+      }
+      return module.CIPHER_TEXT ?? module.CIPHER_TEXTS;
+   }
+
+   const match = MODULE_CIPHER_TEXT_PATTERN.exec(contents);
+   if (!match) {
+      throw new Error('No CIPHER_TEXT or CIPHER_TEXTS export found');
+   }
+
+   return JSON.parse(match[1]);
+}
+
+/**
+ * Read the envelope metadata of an encrypted JSON file or generated JS module without the master key.
+ * Modules written by `buildEnvironments` report the metadata of each bundle.
+ * @param {string} [filePath]
+ * @returns {CipherTextInfo | Record<string, CipherTextInfo>}
+ */
+function inspectFile(filePath?: string): CipherTextInfo | Record<string, CipherTextInfo> {
+   const newFilePath = filePath ? path.resolve(filePath) : DEFAULT_JSON_PATH;
+
+   try {
+      const cipherText = readCipherText(newFilePath);
+      if (typeof cipherText === 'string') {
+         return secrets.inspect(cipherText);
+      }
+
+      return Object.fromEntries(Object.entries(cipherText).map(([name, bundle]) => [name, secrets.inspect(bundle)]));
+   } catch (error) {
+      throw new Error(`Failed to inspect file ${newFilePath}: ${error}`);
+   }
+}
+
+/**
+ * Check that an encrypted JSON file or generated JS module decrypts and contains the expected keys.
+ * Problems, including an unreadable file, are reported in the result rather than thrown.
+ * @param {string} [filePath]
+ * @param {VerifyOptions} [options]
+ * @returns {Promise<VerifyResult>}
+ */
+async function verifyFile(filePath?: string, options: VerifyOptions = {}): Promise<VerifyResult> {
+   const newFilePath = filePath ? path.resolve(filePath) : DEFAULT_JSON_PATH;
+
+   let cipherText: string | SecretsBundles;
+   try {
+      cipherText = readCipherText(newFilePath);
+   } catch (error) {
+      return {
+         valid: false,
+         info: null,
+         keys: [],
+         missing: [],
+         errors: [`Failed to read file ${newFilePath}: ${error}`],
+      };
+   }
+
+   return secrets.verify(cipherText, options);
+}
+
+/**
+ * Write a file unless it already has these contents, so unchanged output keeps its modification time
+ * @param {string} filePath - Resolved path of the file
+ * @param {string} fileContents - The contents to write
+ * @returns {boolean} - Whether the file changed
+ */
+function writeFile(filePath: string, fileContents: string): boolean {
+   try {
+      if (fs.existsSync(filePath) && fs.readFileSync(filePath, { encoding: 'utf-8' }) === fileContents) {
+         return false;
+      }
       fs.writeFileSync(filePath, fileContents, { encoding: 'utf-8' });
+      return true;
    } catch (error) {
       throw new Error(`Failed to write file ${filePath}: ${error}`);
    }
 }
 
-function loadSecrets() {
-   return require(DEFAULT_JS_PATH).loadSecrets();
+/**
+ * Decrypt two encrypted JSON files or generated JS modules and report which keys were added, removed or changed,
+ * without their values. Use {options.environment} to compare one bundle of modules written by `buildEnvironments`.
+ * @param {string} previousPath - The old file
+ * @param {string} currentPath - The new file
+ * @param {KeyOptions} [options]
+ * @returns {Promise<SecretsDiff>}
+ */
+async function diffFiles(previousPath: string, currentPath: string, options: KeyOptions = {}): Promise<SecretsDiff> {
+   const read = (filePath: string) => {
+      const resolvedPath = path.resolve(filePath);
+      try {
+         return readCipherText(resolvedPath);
+      } catch (error) {
+         throw new Error(`Failed to read file ${resolvedPath}: ${error}`);
+      }
+   };
+
+   return secrets.diff(read(previousPath), read(currentPath), options);
+}
+
+/**
+ * A fallback cache for a provider, e.g. Doppler's `dopplerFallback`, kept in an encrypted JSON file.
+ * The fetched secrets are written with `encryptToFile` and read back with `decryptFromFile`.
+ * @param {string} filePath - Path of the encrypted cache file
+ * @returns {FallbackCache}
+ */
+function fileFallback(filePath: string): FallbackCache {
+   return {
+      read: async () => {
+         const { mergeSecrets, ...cached } = await decryptFromFile(filePath);
+         return cached;
+      },
+      write: async (fetched) => {
+         await encryptToFile(fetched, { path: filePath });
+      },
+   };
+}
+
+/**
+ * Load the module written by `build` or `buildEnvironments` to the default path.
+ * Use {options.environment} to pick the bundle written by `buildEnvironments`.
+ * Merge options such as `override` and `include` are passed through to `mergeSecrets`.
+ * @param {LoadSecretsOptions} [options]
+ */
+function loadSecrets(options?: Omit<LoadSecretsOptions, 'schema'>) {
+   return require(DEFAULT_JS_PATH).loadSecrets(options);
 }
 
-export { build, encryptToFile, decryptFromFile, loadSecrets };
+export {
+   build,
+   buildCipherText,
+   buildEnvironments,
+   encryptToFile,
+   decryptFromFile,
+   reencryptFile,
+   inspectFile,
+   verifyFile,
+   diffFiles,
+   fileFallback,
+   loadSecrets,
+};
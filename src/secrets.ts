@@ -1,5 +1,57 @@
-import { type EnvObject, EnvTarget } from './types';
-import { base64ToUint8Array, uint8ArrayToBase64 } from './utils';
+import { cachedKey, cachedPayload, clearCache, configureCache, storePayload } from './cache';
+import { DEFAULT_CHUNK_SIZE, compress, decompress, decryptChunks, encryptChunks } from './chunks';
+import { canonicalPlaintext, diffPayloads, hashPlaintext, parsePayload } from './diff';
+import { ENVELOPE_VERSION, encodeHeader, isEnvelope, parseEnvelope, serializeEnvelope } from './envelope';
+import { assertEnvironmentName, keyVariablePrefix, resolveEnvironment, selectBundle } from './environments';
+import { interpolateOptions, interpolateSecrets } from './interpolate';
+import { planMerge } from './merge';
+import {
+   generateRecipientKeyPair,
+   privateKeyFromEnv,
+   recipientKeyIds,
+   recipientsFromEnv,
+   unwrapDataKey,
+   wrapDataKey,
+} from './recipients';
+import { validateSecrets } from './schema';
+import {
+   type ParsedDocument,
+   assertDocumentPayload,
+   decryptValue,
+   documentKeys,
+   documentMac,
+   encryptValue,
+   generateDataKey,
+   isDocument,
+   parseDocument,
+   serializeDocument,
+   verifyDocumentMac,
+} from './structured';
+import {
+   type BuildMetadata,
+   type CipherTextInfo,
+   type Compression,
+   type EncryptOptions,
+   type EnvObject,
+   EnvTarget,
+   type EnvelopeHeader,
+   type InferSecrets,
+   type KeyOptions,
+   type LoadSecretsOptions,
+   type MergeDiff,
+   type MergeOptions,
+   type RecipientHeader,
+   type RecipientKey,
+   type SchemaLike,
+   type SecretsBundles,
+   type SecretsDiff,
+   type SecretsStore,
+   type SecretsStoreOptions,
+   type StructuredEncryptOptions,
+   type VerifyOptions,
+   type VerifyResult,
+} from './types';
+import { base64ToUint8Array, concatUint8Arrays, hexToUint8Array, uint8ArrayToBase64, uint8ArrayToHex } from './utils';
 
 const PBKDF2_ROUNDS = process.env.GITOPS_SECRETS_PBKDF2_ROUNDS || 1000000;
 const PBKDF2_KEYLEN = 32;
@@ -7,17 +59,157 @@ const PBKDF2_DIGEST = 'SHA-256';
 const ALGORITHM = 'AES-GCM';
 const AES_IV_BYTES = 12;
 const AES_SALT_BYTES = 8;
+const RAW_KEY_BYTES = 32;
+const KDF_PBKDF2 = 'PBKDF2';
+const KDF_NONE = 'none';
+const KDF_RECIPIENTS = 'recipients';
 const ENCODING = 'base64';
 const TEXT_ENCODING = 'utf8';
 
-function masterKey() {
-   if (!process.env.GITOPS_SECRETS_MASTER_KEY || process.env.GITOPS_SECRETS_MASTER_KEY.length < 16) {
-      throw new Error(
-         `The 'GITOPS_SECRETS_MASTER_KEY' environment variable must be set to a string of 16 characters or more`,
-      );
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const FINGERPRINT_LABEL = 'gitops-secrets:key-fingerprint:';
+const FINGERPRINT_BYTES = 8;
+
+class MissingSecretError extends Error {
+   readonly key: string;
+
+   constructor(key: string) {
+      super(`Secret '${key}' is not set`);
+      this.name = 'MissingSecretError';
+      this.key = key;
+   }
+}
+
+type MasterKey = {
+   id: string | null;
+   value: string;
+};
+
+type ReusableDocument = {
+   dataKey: Uint8Array;
+   keys: Awaited<ReturnType<typeof documentKeys>>;
+   /** Encrypted values of the previous document */
+   values: Record<string, string>;
+   /** Decrypted values of the previous document */
+   plaintext: Record<string, unknown>;
+   /** The encrypted data key, when it is still encrypted the way a new one would be */
+   wrappedKey: string | null;
+};
+
+type CipherParameters = {
+   kdf: string;
+   hash: string;
+   rounds: number;
+   salt: Uint8Array;
+   iv: Uint8Array;
+   data: Uint8Array;
+   keyId: string | null;
+   additionalData: Uint8Array | null;
+   compression: Compression | null;
+   chunkSize: number | null;
+   recipients: RecipientHeader[] | null;
+};
+
+function masterKey(variable: string) {
+   const value = process.env[variable];
+   if (!value || value.length < 16) {
+      throw new Error(`The '${variable}' environment variable must be set to a string of 16 characters or more`);
    }
 
-   return process.env.GITOPS_SECRETS_MASTER_KEY;
+   return value;
+}
+
+function keyId(variable: string) {
+   const id = process.env[variable];
+   if (!id) {
+      return null;
+   }
+
+   if (!KEY_ID_PATTERN.test(id)) {
+      throw new Error(`The '${variable}' environment variable may only contain letters, digits, '.', '_' and '-'`);
+   }
+
+   return id;
+}
+
+/**
+ * Build the keyring from the environment. The current key is always first and is the one used to encrypt.
+ * `GITOPS_SECRETS_MASTER_KEY_PREVIOUS` is only used to decrypt payloads written before a rotation.
+ * With an environment name, `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` and its `_ID`/`_PREVIOUS` variables are used
+ * instead when set.
+ *
+ * @param {string} [environment] - The environment whose keys to use
+ * @returns {MasterKey[]} - The configured master keys
+ */
+function masterKeys(environment?: string): MasterKey[] {
+   const prefix = keyVariablePrefix(environment);
+   const keys: MasterKey[] = [{ id: keyId(`${prefix}_MASTER_KEY_ID`), value: masterKey(`${prefix}_MASTER_KEY`) }];
+   const previous = process.env[`${prefix}_MASTER_KEY_PREVIOUS`];
+
+   if (previous) {
+      if (previous.length < 16) {
+         throw new Error(
+            `The '${prefix}_MASTER_KEY_PREVIOUS' environment variable must be a string of 16 characters or more`,
+         );
+      }
+      keys.push({ id: keyId(`${prefix}_MASTER_KEY_PREVIOUS_ID`), value: previous });
+   }
+
+   return keys;
+}
+
+/**
+ * Read the key mode from `GITOPS_SECRETS_KEY_MODE`.
+ * `raw` treats the master key as a 256-bit key and skips PBKDF2, `pbkdf2` (the default) derives a key from a passphrase.
+ *
+ * @returns {string} - The key derivation function recorded in the envelope
+ */
+function keyDerivation(): string {
+   const mode = (process.env.GITOPS_SECRETS_KEY_MODE || 'pbkdf2').toLowerCase();
+   switch (mode) {
+      case 'pbkdf2':
+         return KDF_PBKDF2;
+      case 'raw':
+         return KDF_NONE;
+      default:
+         throw new Error(`The 'GITOPS_SECRETS_KEY_MODE' environment variable must be 'pbkdf2' or 'raw', got '${mode}'`);
+   }
+}
+
+/**
+ * Decode a 256-bit base64 or hex encoded master key
+ *
+ * @param {string} masterKeyString - The encoded master key
+ * @returns {Uint8Array} - The key bytes
+ */
+function rawKeyBytes(masterKeyString: string): Uint8Array {
+   let keyBytes: Uint8Array;
+   try {
+      keyBytes = /^[0-9a-fA-F]{64}$/.test(masterKeyString)
+         ? hexToUint8Array(masterKeyString)
+         : base64ToUint8Array(masterKeyString.replace(/-/g, '+').replace(/_/g, '/'));
+   } catch {
+      keyBytes = new Uint8Array();
+   }
+
+   if (keyBytes.length !== RAW_KEY_BYTES) {
+      throw new Error('Raw master keys must be 256-bit keys encoded as base64 or hex');
+   }
+
+   return keyBytes;
+}
+
+/**
+ * Import a 256-bit base64 or hex encoded master key directly, without key derivation
+ *
+ * @param {string} masterKeyString - The encoded master key
+ * @returns {Promise<CryptoKey>} - The imported key
+ */
+async function importRawKey(masterKeyString: string): Promise<CryptoKey> {
+   return crypto.subtle.importKey('raw', rawKeyBytes(masterKeyString), { name: ALGORITHM }, false, [
+      'encrypt',
+      'decrypt',
+   ]);
 }
 
 /**
@@ -26,12 +218,14 @@ function masterKey() {
  * @param {string} masterKeyString - The master key string
  * @param {Uint8Array} salt - The salt for key derivation
  * @param {number} iterations - The number of iterations for key derivation
+ * @param {string} hash - The PBKDF2 digest
  * @returns {Promise<CryptoKey>} - The derived key
  */
 async function deriveKey(
    masterKeyString: string,
    salt: Uint8Array,
    iterations: number = Number(PBKDF2_ROUNDS),
+   hash: string = PBKDF2_DIGEST,
 ): Promise<CryptoKey> {
    const masterKeyBuffer = new TextEncoder().encode(masterKeyString);
    const importedKey = await crypto.subtle.importKey('raw', masterKeyBuffer, { name: 'PBKDF2' }, false, ['deriveKey']);
@@ -41,7 +235,7 @@ async function deriveKey(
          name: 'PBKDF2',
          salt: salt,
          iterations: iterations,
-         hash: PBKDF2_DIGEST,
+         hash: hash,
       },
       importedKey,
       { name: ALGORITHM, length: PBKDF2_KEYLEN * 8 },
@@ -51,71 +245,582 @@ async function deriveKey(
 }
 
 /**
- * Encrypt secrets to a secure format
+ * Generate a random 256-bit master key for use with `GITOPS_SECRETS_KEY_MODE=raw`
+ *
+ * @returns {string} - Base64 encoded key
+ */
+function generateMasterKey(): string {
+   return uint8ArrayToBase64(crypto.getRandomValues(new Uint8Array(RAW_KEY_BYTES)));
+}
+
+/**
+ * Fingerprint a raw master key so cipher texts can be matched to the key that wrote them without revealing it.
+ * Raw keys are random 256-bit keys, so a hash can't be brute forced. Passphrases are not fingerprinted: a hash of
+ * one could be checked against a dictionary offline, and stretching it would cost a second key derivation.
+ *
+ * @param {string} masterKeyString - The encoded raw master key
+ * @returns {Promise<string>} - Hex encoded fingerprint
+ */
+async function keyFingerprint(masterKeyString: string): Promise<string> {
+   const input = concatUint8Arrays([new TextEncoder().encode(FINGERPRINT_LABEL), rawKeyBytes(masterKeyString)]);
+   const digest = await crypto.subtle.digest('SHA-256', input);
+
+   return uint8ArrayToHex(new Uint8Array(digest).subarray(0, FINGERPRINT_BYTES));
+}
+
+/**
+ * Derive the key for the current master key and start the envelope header that records how it was derived
+ *
+ * @param {string} [environment] - The environment whose master key to use
+ * @returns {Promise<[CryptoKey, EnvelopeHeader]>}
+ */
+async function masterKeyHeader(environment?: string): Promise<[CryptoKey, EnvelopeHeader]> {
+   const [currentKey] = masterKeys(environment);
+   const kdf = keyDerivation();
+
+   let key: CryptoKey;
+   let header: EnvelopeHeader;
+   if (kdf === KDF_NONE) {
+      const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
+      key = await importRawKey(currentKey.value);
+      header = { version: ENVELOPE_VERSION, kdf, cipher: ALGORITHM, iv: uint8ArrayToBase64(iv) };
+   } else {
+      const salt = crypto.getRandomValues(new Uint8Array(AES_SALT_BYTES));
+      const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
+      key = await deriveKey(currentKey.value, salt);
+      header = {
+         version: ENVELOPE_VERSION,
+         kdf,
+         hash: PBKDF2_DIGEST,
+         rounds: Number(PBKDF2_ROUNDS),
+         salt: uint8ArrayToBase64(salt),
+         cipher: ALGORITHM,
+         iv: uint8ArrayToBase64(iv),
+      };
+   }
+   if (currentKey.id) {
+      header.keyId = currentKey.id;
+   }
+   header.createdAt = new Date().toISOString();
+   if (kdf === KDF_NONE) {
+      header.keyFingerprint = await keyFingerprint(currentKey.value);
+   }
+
+   return [key, header];
+}
+
+/**
+ * Encrypt secrets to a secure format.
+ * The envelope header records the format version, KDF, hash, cipher, key ID, creation time, raw key fingerprint
+ * and build metadata and is bound as additional authenticated data.
+ * With recipients, the data is encrypted under a random data key wrapped for each recipient's public key, and
+ * no master key is needed.
+ * Pass the cipher text written last time as {options.previous} to get it back unchanged when the data didn't change.
  *
  * @param {string} secrets - The data to encrypt
- * @returns {Promise<string>} - Encrypted data in format "base64:rounds:salt:iv:encryptedData"
+ * @param {EncryptOptions} [options] - Use {options.environment} to encrypt under that environment's master key,
+ * {options.recipients} to encrypt for public keys and {options.metadata} to record build details
+ * @returns {Promise<string>} - Encrypted data in format "gs2:header:encryptedData"
  */
-async function encrypt(secrets: string): Promise<string> {
-   const salt = crypto.getRandomValues(new Uint8Array(AES_SALT_BYTES));
-   const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
-   const key = await deriveKey(masterKey(), salt);
+async function encrypt(secrets: string, options: EncryptOptions = {}): Promise<string> {
+   if (options.metadata?.environment) {
+      assertEnvironmentName(options.metadata.environment);
+   }
+   if (options.previous && (await isUnchanged(options.previous, secrets, options))) {
+      return options.previous;
+   }
 
-   const dataBuffer = new TextEncoder().encode(secrets);
-   const encryptedBuffer = await crypto.subtle.encrypt(
-      {
-         name: ALGORITHM,
-         iv: iv,
-      },
-      key,
-      dataBuffer,
-   );
+   const recipients = options.recipients || recipientsFromEnv();
+   let key: CryptoKey;
+   let header: EnvelopeHeader;
+   if (recipients) {
+      const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
+      const wrapped = await wrapDataKey(recipients);
+      key = wrapped.dataKey;
+      header = {
+         version: ENVELOPE_VERSION,
+         kdf: KDF_RECIPIENTS,
+         cipher: ALGORITHM,
+         iv: uint8ArrayToBase64(iv),
+         recipients: wrapped.recipients,
+         createdAt: new Date().toISOString(),
+      };
+   } else {
+      [key, header] = await masterKeyHeader(options.environment);
+   }
+   if (options.metadata && Object.keys(options.metadata).length > 0) {
+      header.metadata = options.metadata;
+   }
 
-   const saltBase64 = uint8ArrayToBase64(salt);
-   const ivBase64 = uint8ArrayToBase64(iv);
-   const encryptedBase64 = uint8ArrayToBase64(new Uint8Array(encryptedBuffer));
+   let dataBuffer = new TextEncoder().encode(secrets);
+   if (options.compression) {
+      dataBuffer = await compress(dataBuffer, options.compression);
+      header.compression = options.compression;
+   }
+
+   const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+   if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+   }
+   if (dataBuffer.length > chunkSize) {
+      header.chunkSize = chunkSize;
+   }
 
-   return `${ENCODING}:${PBKDF2_ROUNDS}:${saltBase64}:${ivBase64}:${encryptedBase64}`;
+   const encodedHeader = encodeHeader(header);
+   const iv = base64ToUint8Array(header.iv);
+   const additionalData = new TextEncoder().encode(encodedHeader);
+   const encrypted = header.chunkSize
+      ? await encryptChunks(key, iv, additionalData, dataBuffer, header.chunkSize)
+      : new Uint8Array(await crypto.subtle.encrypt({ name: ALGORITHM, iv, additionalData }, key, dataBuffer));
+
+   return serializeEnvelope(encodedHeader, encrypted);
 }
 
 /**
- * Decrypt secrets from secure format
+ * Read the parameters needed for decryption from either the versioned envelope or the legacy format
  *
- * @param {string} ciphertext - Data in format "base64:rounds:salt:iv:encryptedData"
- * @returns {Promise<string>} - Decrypted data
+ * @param {string} ciphertext - Data in format "gs2:header:encryptedData" or "base64:rounds:salt:iv:encryptedData[:keyId]"
+ * @returns {CipherParameters} - The decryption parameters
  */
-async function decrypt(ciphertext: string): Promise<string> {
+function parseCipherText(ciphertext: string): CipherParameters {
+   if (isEnvelope(ciphertext)) {
+      const { header, encodedHeader, data } = parseEnvelope(ciphertext);
+      return {
+         kdf: header.kdf,
+         hash: header.hash || PBKDF2_DIGEST,
+         rounds: header.rounds || 0,
+         salt: base64ToUint8Array(header.salt || ''),
+         iv: base64ToUint8Array(header.iv),
+         data,
+         keyId: header.keyId || null,
+         additionalData: new TextEncoder().encode(encodedHeader),
+         compression: header.compression || null,
+         chunkSize: header.chunkSize || null,
+         recipients: header.recipients || null,
+      };
+   }
+
    const encodedData = ciphertext.startsWith(`${ENCODING}:`) ? ciphertext.substring(`${ENCODING}:`.length) : ciphertext;
 
    const parts = encodedData.split(':');
-   if (parts.length !== 4) {
-      throw new Error(`Encrypted payload invalid. Expected 4 sections but got ${parts.length}`);
+   if (parts.length !== 4 && parts.length !== 5) {
+      throw new Error(`Encrypted payload invalid. Expected 4 or 5 sections but got ${parts.length}`);
    }
 
-   const rounds = Number.parseInt(parts[0], 10);
-   const salt = base64ToUint8Array(parts[1]);
-   const iv = base64ToUint8Array(parts[2]);
-   const encryptedContent = base64ToUint8Array(parts[3]);
+   return {
+      kdf: KDF_PBKDF2,
+      hash: PBKDF2_DIGEST,
+      rounds: Number.parseInt(parts[0], 10),
+      salt: base64ToUint8Array(parts[1]),
+      iv: base64ToUint8Array(parts[2]),
+      data: base64ToUint8Array(parts[3]),
+      keyId: parts[4] || null,
+      additionalData: null,
+      compression: null,
+      chunkSize: null,
+      recipients: null,
+   };
+}
 
-   try {
-      const key = await deriveKey(masterKey(), salt, rounds);
+/**
+ * Decrypt the data of a cipher text with one candidate key, chunk by chunk when it was encrypted in chunks
+ *
+ * @param {CryptoKey} key - The AES-GCM key
+ * @param {CipherParameters} parameters - The parsed cipher text
+ * @returns {Promise<Uint8Array>} - The decrypted, possibly compressed, data
+ */
+async function decryptData(key: CryptoKey, parameters: CipherParameters): Promise<Uint8Array> {
+   const { iv, data, additionalData, chunkSize } = parameters;
+   if (chunkSize && additionalData) {
+      return decryptChunks(key, iv, additionalData, data, chunkSize);
+   }
 
-      const decryptedBuffer = await crypto.subtle.decrypt(
-         {
-            name: ALGORITHM,
-            iv: iv,
-         },
+   return new Uint8Array(
+      await crypto.subtle.decrypt(
+         additionalData ? { name: ALGORITHM, iv: iv, additionalData } : { name: ALGORITHM, iv: iv },
          key,
-         encryptedContent,
+         data,
+      ),
+   );
+}
+
+/**
+ * Decrypt the data of a cipher text with master keys from the keyring.
+ * When the payload names a key ID only the matching key is tried, otherwise every given key is tried in order.
+ *
+ * @param {CipherParameters} parameters - The parsed cipher text
+ * @param {MasterKey[]} keys - The master keys to try
+ * @returns {Promise<Uint8Array>} - The decrypted, possibly compressed, data
+ */
+async function decryptWithMasterKeys(parameters: CipherParameters, keys: MasterKey[]): Promise<Uint8Array> {
+   const { kdf, hash, rounds, salt, keyId: payloadKeyId } = parameters;
+   const saltBase64 = uint8ArrayToBase64(salt);
+   const candidates = payloadKeyId ? keys.filter((key) => key.id === payloadKeyId) : keys;
+   if (candidates.length === 0) {
+      throw new Error(`No master key is configured for key ID '${payloadKeyId}'`);
+   }
+
+   let lastError: unknown;
+   for (const candidate of candidates) {
+      try {
+         const key = await cachedKey(`${kdf}:${hash}:${rounds}:${saltBase64}:${candidate.value}`, () =>
+            kdf === KDF_NONE ? importRawKey(candidate.value) : deriveKey(candidate.value, salt, rounds, hash),
+         );
+
+         return await decryptData(key, parameters);
+      } catch (error) {
+         lastError = error;
+      }
+   }
+
+   throw lastError;
+}
+
+/**
+ * Decompress and decode decrypted data
+ *
+ * @param {Uint8Array} data - The decrypted data
+ * @param {CipherParameters} parameters - The parsed cipher text
+ * @returns {Promise<string>}
+ */
+async function decodePlaintext(data: Uint8Array, parameters: CipherParameters): Promise<string> {
+   const { compression } = parameters;
+   const plaintext = compression ? await decompress(data, compression) : data;
+   return new TextDecoder(TEXT_ENCODING).decode(plaintext);
+}
+
+/**
+ * Decrypt the data of a cipher text encrypted for recipients by unwrapping its data key with a private key
+ *
+ * @param {CipherParameters} parameters - The parsed cipher text
+ * @param {RecipientKey} [privateKey] - The recipient's private key, `GITOPS_SECRETS_PRIVATE_KEY` by default
+ * @returns {Promise<Uint8Array>} - The decrypted, possibly compressed, data
+ */
+async function decryptForRecipient(parameters: CipherParameters, privateKey?: RecipientKey): Promise<Uint8Array> {
+   const key = privateKey || privateKeyFromEnv();
+   if (!key) {
+      throw new Error(
+         "Cipher text is encrypted for recipients. Pass {privateKey} or set the 'GITOPS_SECRETS_PRIVATE_KEY' environment variable",
       );
+   }
+
+   return decryptData(await unwrapDataKey(parameters.recipients || [], key), parameters);
+}
+
+/**
+ * Read the build metadata recorded in an envelope header, or in the header of a structured document's data key
+ *
+ * @param {string} ciphertext - Data in format "gs2:header:encryptedData" or "base64:rounds:salt:iv:encryptedData[:keyId]",
+ * or a structured document
+ * @returns {BuildMetadata | undefined} - Undefined for legacy cipher text and cipher text built without metadata
+ */
+function readMetadata(ciphertext: string): BuildMetadata | undefined {
+   const envelope = isDocument(ciphertext) ? parseDocument(ciphertext).dataKey : ciphertext;
+   return isEnvelope(envelope) ? parseEnvelope(envelope).header.metadata : undefined;
+}
+
+const privateKeyIds = new WeakMap<CryptoKey, number>();
+let privateKeyCount = 0;
+
+/**
+ * Identify a decrypted payload by its cipher text and the keys that decrypt it, so a cached payload is only returned
+ * while the same master keys or private key are in use
+ *
+ * @param {string} ciphertext - The cipher text, or a structured document
+ * @param {KeyOptions} options - The keys the cipher text is decrypted with
+ * @returns {string | null} - Null when the keys can't be resolved, so the payload is neither cached nor read from cache
+ */
+function payloadCacheId(ciphertext: string, options: KeyOptions): string | null {
+   try {
+      const envelope = isDocument(ciphertext) ? parseDocument(ciphertext).dataKey : ciphertext;
+      if (parseCipherText(envelope).kdf !== KDF_RECIPIENTS) {
+         return JSON.stringify([...masterKeys(options.environment).map((key) => key.value), ciphertext]);
+      }
+
+      const privateKey = options.privateKey || privateKeyFromEnv();
+      if (!privateKey) {
+         return null;
+      }
+      if (typeof CryptoKey === 'undefined' || !(privateKey instanceof CryptoKey)) {
+         return JSON.stringify([privateKey, ciphertext]);
+      }
+      if (!privateKeyIds.has(privateKey)) {
+         privateKeyIds.set(privateKey, ++privateKeyCount);
+      }
+      return JSON.stringify([privateKeyIds.get(privateKey), ciphertext]);
+   } catch {
+      return null;
+   }
+}
+
+/**
+ * Decrypt a structured document: decrypt its data key, check the MAC over the whole document, then each value
+ *
+ * @param {ParsedDocument} document - The parsed document
+ * @param {KeyOptions} options - The keys to decrypt the data key with
+ * @param {string | null} [encodedDataKey] - The data key when it was already decrypted
+ * @returns {Promise<[Uint8Array, Record<string, unknown>]>} - The data key and the decrypted values
+ */
+async function decryptDocument(
+   document: ParsedDocument,
+   options: KeyOptions,
+   encodedDataKey: string | null = null,
+): Promise<[Uint8Array, Record<string, unknown>]> {
+   const dataKey = base64ToUint8Array(encodedDataKey ?? (await decrypt(document.dataKey, options)));
 
-      const decrypted = new TextDecoder(TEXT_ENCODING).decode(decryptedBuffer);
+   try {
+      const { valueKey, macKey } = await documentKeys(dataKey);
+      await verifyDocumentMac(macKey, document);
+
+      const payload: Record<string, unknown> = {};
+      for (const [name, encrypted] of Object.entries(document.values)) {
+         payload[name] = await decryptValue(valueKey, name, encrypted);
+      }
+      return [dataKey, payload];
+   } catch (error) {
+      throw new Error(`Decryption failed: ${error instanceof Error ? error.message : String(error)}`);
+   }
+}
+
+/**
+ * Decrypt secrets from secure format.
+ * When the payload names a key ID only the matching key is tried, otherwise every configured key is tried in order.
+ * Cipher text encrypted for recipients is decrypted with {options.privateKey} or `GITOPS_SECRETS_PRIVATE_KEY`.
+ * Cipher text built for another environment than {options.environment} is rejected; the header is authenticated,
+ * so the recorded environment can't be edited without decryption failing.
+ * Structured documents written by `encryptStructured` decrypt to the same JSON as a single cipher text would.
+ *
+ * @param {string} ciphertext - Data in format "gs2:header:encryptedData" or "base64:rounds:salt:iv:encryptedData[:keyId]",
+ * or a structured document
+ * @param {KeyOptions} [options] - Use {options.environment} to decrypt with that environment's master keys
+ * @returns {Promise<string>} - Decrypted data
+ */
+async function decrypt(ciphertext: string, options: KeyOptions = {}): Promise<string> {
+   const builtFor = readMetadata(ciphertext)?.environment;
+   if (builtFor && options.environment && builtFor !== options.environment) {
+      throw new Error(
+         `Decryption failed: Cipher text was built for environment '${builtFor}', expected '${options.environment}'`,
+      );
+   }
+
+   const cacheId = payloadCacheId(ciphertext, options);
+   const cached = cacheId !== null ? cachedPayload(cacheId) : undefined;
+   if (cached !== undefined) {
+      return cached;
+   }
+
+   if (isDocument(ciphertext)) {
+      const [, payload] = await decryptDocument(parseDocument(ciphertext), options);
+      const decrypted = JSON.stringify(payload);
+      if (cacheId !== null) {
+         storePayload(cacheId, decrypted);
+      }
+      return decrypted;
+   }
+
+   const parameters = parseCipherText(ciphertext);
+
+   try {
+      const decryptedBuffer =
+         parameters.kdf === KDF_RECIPIENTS
+            ? await decryptForRecipient(parameters, options.privateKey)
+            : await decryptWithMasterKeys(parameters, masterKeys(options.environment));
+      const decrypted = await decodePlaintext(decryptedBuffer, parameters);
+      if (cacheId !== null) {
+         storePayload(cacheId, decrypted);
+      }
       return decrypted;
    } catch (error) {
       throw new Error(`Decryption failed: ${error instanceof Error ? error.message : String(error)}`);
    }
 }
 
+/**
+ * Re-encrypt a payload under the current master key, keeping its build metadata, compression and chunk size.
+ * Structured documents get a new data key, so every value changes.
+ * Use after rotating `GITOPS_SECRETS_MASTER_KEY` with the old key set as `GITOPS_SECRETS_MASTER_KEY_PREVIOUS`,
+ * or to change the recipients a payload is encrypted for.
+ *
+ * @param {string} ciphertext - Data encrypted under any configured master key, or for the private key
+ * @param {KeyOptions & Pick<EncryptOptions, 'recipients'>} [options] - Use {options.environment} to rotate that
+ * environment's bundle and {options.recipients} to encrypt for those public keys
+ * @returns {Promise<string>} - The same data encrypted under the current master key or for the recipients
+ */
+async function reencrypt(
+   ciphertext: string,
+   options: KeyOptions & Pick<EncryptOptions, 'recipients'> = {},
+): Promise<string> {
+   if (isDocument(ciphertext)) {
+      const payload = JSON.parse(await decrypt(ciphertext, options));
+      return encryptStructured(payload, { ...options, metadata: readMetadata(ciphertext) });
+   }
+
+   const header = isEnvelope(ciphertext) ? parseEnvelope(ciphertext).header : undefined;
+
+   return encrypt(await decrypt(ciphertext, options), {
+      ...options,
+      metadata: header?.metadata,
+      compression: header?.compression,
+      chunkSize: header?.chunkSize,
+   });
+}
+
+/**
+ * Check whether an envelope header records the metadata, compression and chunk size `encrypt` would record now
+ *
+ * @param {EnvelopeHeader} header - The header of the cipher text written earlier
+ * @param {EncryptOptions} options - The options new cipher text would be encrypted with
+ * @returns {boolean}
+ */
+function hasCurrentOptions(header: EnvelopeHeader, options: EncryptOptions): boolean {
+   const metadata = options.metadata && Object.keys(options.metadata).length > 0 ? options.metadata : undefined;
+   if (JSON.stringify(header.metadata) !== JSON.stringify(metadata)) {
+      return false;
+   }
+   if (header.compression !== options.compression) {
+      return false;
+   }
+
+   return !header.chunkSize || header.chunkSize === (options.chunkSize || DEFAULT_CHUNK_SIZE);
+}
+
+/**
+ * Decrypt cipher text written earlier when it is encrypted for the same recipients, or under the current master key
+ * and key mode. Only the current master key is tried, so cipher text written under a previous key counts as changed.
+ *
+ * @param {string} ciphertext - The cipher text written earlier
+ * @param {EncryptOptions} options - The options new cipher text would be encrypted with
+ * @returns {Promise<string | null>} - The decrypted data, or null when it is encrypted for other keys or doesn't
+ * decrypt
+ */
+async function currentKeyPlaintext(ciphertext: string, options: EncryptOptions): Promise<string | null> {
+   if (!isEnvelope(ciphertext)) {
+      return null;
+   }
+
+   const { header } = parseEnvelope(ciphertext);
+   const recipients = options.recipients || recipientsFromEnv();
+   try {
+      if (recipients || header.kdf === KDF_RECIPIENTS) {
+         const current = recipients ? (await recipientKeyIds(recipients)).sort() : [];
+         const previous = (header.recipients || []).map((recipient) => recipient.keyId).sort();
+         if (current.length === 0 || current.join() !== previous.join()) {
+            return null;
+         }
+         return await decrypt(ciphertext, options);
+      }
+
+      const [currentKey] = masterKeys(options.environment);
+      if (header.kdf !== keyDerivation() || (header.keyId || null) !== currentKey.id) {
+         return null;
+      }
+      const parameters = parseCipherText(ciphertext);
+      return await decodePlaintext(await decryptWithMasterKeys(parameters, [currentKey]), parameters);
+   } catch {
+      return null;
+   }
+}
+
+/**
+ * Decrypt cipher text written earlier when it is still encrypted the way `encrypt` would encrypt it now: for the
+ * same recipients, or under the current master key and key mode, with the same metadata, compression and chunk size
+ *
+ * @param {string} ciphertext - The cipher text written earlier
+ * @param {EncryptOptions} options - The options new cipher text would be encrypted with
+ * @returns {Promise<string | null>} - The decrypted data, or null when it would be encrypted differently now or
+ * doesn't decrypt
+ */
+async function currentPlaintext(ciphertext: string, options: EncryptOptions): Promise<string | null> {
+   if (!isEnvelope(ciphertext) || !hasCurrentOptions(parseEnvelope(ciphertext).header, options)) {
+      return null;
+   }
+
+   return currentKeyPlaintext(ciphertext, options);
+}
+
+/**
+ * Check whether cipher text written earlier holds the same data, ignoring key order, and is encrypted the way
+ * `encrypt` would encrypt it now
+ *
+ * @param {string} previous - The cipher text written earlier
+ * @param {string} secrets - The data about to be encrypted
+ * @param {EncryptOptions} options - The options it would be encrypted with
+ * @returns {Promise<boolean>} - False as well when the previous cipher text doesn't decrypt
+ */
+async function isUnchanged(previous: string, secrets: string, options: EncryptOptions): Promise<boolean> {
+   const plaintext = await currentPlaintext(previous, options);
+   return plaintext !== null && canonicalPlaintext(plaintext) === canonicalPlaintext(secrets);
+}
+
+/**
+ * Decrypt the document written last time so its data key and unchanged values can be kept.
+ * They are only kept when the current master key or recipients alone open the data key: after a rotation, anyone
+ * holding a retired key could otherwise unwrap the old data key and read the new document.
+ *
+ * @param {string} previous - The previous document
+ * @param {StructuredEncryptOptions} options - The options the new document is encrypted with
+ * @returns {Promise<ReusableDocument | null>} - Null when it isn't a structured document, is encrypted for other
+ * keys or doesn't decrypt
+ */
+async function reusableDocument(previous: string, options: StructuredEncryptOptions): Promise<ReusableDocument | null> {
+   if (!isDocument(previous)) {
+      return null;
+   }
+
+   try {
+      const document = parseDocument(previous);
+      const encodedDataKey = await currentKeyPlaintext(document.dataKey, options);
+      if (encodedDataKey === null) {
+         return null;
+      }
+      const [dataKey, plaintext] = await decryptDocument(document, options, encodedDataKey);
+      return {
+         dataKey,
+         keys: await documentKeys(dataKey),
+         values: document.values,
+         plaintext,
+         wrappedKey: hasCurrentOptions(parseEnvelope(document.dataKey).header, options) ? document.dataKey : null,
+      };
+   } catch {
+      return null;
+   }
+}
+
+/**
+ * Encrypt each value of a payload separately into a structured JSON document.
+ * Key names stay readable, values are encrypted under a random data key with the key name as additional
+ * authenticated data, and a MAC covers every key and value. The data key itself is encrypted with `encrypt`,
+ * so master keys, key rotation, recipients and build metadata work as for any other payload.
+ * Pass the document written last time as {options.previous} so unchanged values keep their cipher text.
+ *
+ * @param {Record<string, unknown>} payload - The secrets
+ * @param {StructuredEncryptOptions} [options] - The keys and metadata to encrypt the data key with
+ * @returns {Promise<string>} - The document, with one key per line
+ */
+async function encryptStructured(
+   payload: Record<string, unknown>,
+   options: StructuredEncryptOptions = {},
+): Promise<string> {
+   assertDocumentPayload(payload);
+   const { previous, ...encryptOptions } = options;
+   const reused = previous ? await reusableDocument(previous, encryptOptions) : null;
+
+   const dataKey = reused?.dataKey || generateDataKey();
+   const { valueKey, macKey } = reused?.keys || (await documentKeys(dataKey));
+
+   const values: Record<string, string> = {};
+   for (const [name, value] of Object.entries(payload)) {
+      const unchanged =
+         reused &&
+         Object.prototype.hasOwnProperty.call(reused.values, name) &&
+         JSON.stringify(reused.plaintext[name]) === JSON.stringify(value);
+      values[name] = unchanged ? reused.values[name] : await encryptValue(valueKey, name, value);
+   }
+
+   const wrappedKey = reused?.wrappedKey || (await encrypt(uint8ArrayToBase64(dataKey), encryptOptions));
+   return serializeDocument(values, wrappedKey, await documentMac(macKey, values));
+}
+
 /**
  * Get the appropriate environment object based on the target
  *
@@ -147,27 +852,57 @@ function getEnvObject(target: EnvTarget): EnvObject {
 }
 
 /**
- * Merge secrets payload into the specified environment
+ * Merge secrets payload into the specified environment.
+ * Use {options} to keep existing values, filter keys by prefix or glob, rename them, or preview the changes.
+ * Values written to `process.env` are strings, with arrays and objects JSON-encoded; `import.meta.env` keeps
+ * native types. Use {options.flatten} to write nested objects as `PARENT__CHILD` keys instead.
  *
- * @param {Record<string, string>} payload - The payload object containing secrets
+ * @param {Record<string, unknown>} payload - The payload object containing secrets
  * @param {EnvTarget} target - The environment target to merge secrets into
- * @returns {EnvObject} - The environment object with merged secrets
+ * @param {MergeOptions} [options] - The merge policy
+ * @returns {EnvObject} - The environment object with merged secrets, or the changes when {options.dryRun} is set
  */
-function mergeSecrets(payload: Record<string, string>, target: EnvTarget): EnvObject {
+function mergeSecrets(
+   payload: Record<string, unknown>,
+   target: EnvTarget,
+   options?: MergeOptions & { dryRun?: false },
+): EnvObject;
+function mergeSecrets(
+   payload: Record<string, unknown>,
+   target: EnvTarget,
+   options: MergeOptions & { dryRun: true },
+): MergeDiff;
+function mergeSecrets(
+   payload: Record<string, unknown>,
+   target: EnvTarget,
+   options?: MergeOptions,
+): EnvObject | MergeDiff;
+function mergeSecrets(
+   payload: Record<string, unknown>,
+   target: EnvTarget,
+   options: MergeOptions = {},
+): EnvObject | MergeDiff {
    const envObject = getEnvObject(target);
+   // Without import.meta everything is written to process.env, so encode for it whatever the target
+   const destination = typeof import.meta === 'undefined' ? EnvTarget.PROCESS : target;
+   const { entries, diff } = planMerge(payload, envObject, destination, options);
+
+   if (options.dryRun) {
+      return diff;
+   }
 
    if (typeof import.meta === 'undefined') {
       if (typeof process !== 'undefined' && process.env) {
-         for (const [key, value] of Object.entries(payload)) {
-            process.env[key] = value;
+         for (const [key, value] of entries) {
+            process.env[key] = value as string;
          }
       }
       return envObject;
    }
 
-   for (const [key, value] of Object.entries(payload)) {
+   for (const [key, value] of entries) {
       if (target === EnvTarget.PROCESS && typeof process !== 'undefined') {
-         process.env[key] = value;
+         process.env[key] = value as string;
       } else if (target === EnvTarget.IMPORT_META && typeof import.meta !== 'undefined') {
          import.meta.env[key] = value;
       }
@@ -177,22 +912,282 @@ function mergeSecrets(payload: Record<string, string>, target: EnvTarget): EnvOb
 }
 
 /**
- * Load encrypted secrets, decrypt them, and merge into the specified environment
+ * Decrypt a single cipher text, or the bundle for the selected environment from a map of bundles
+ *
+ * @param {string | SecretsBundles} encryptedSecrets - Cipher text, or cipher text per environment
+ * @param {KeyOptions} [options] - Explicit environment name and private key
+ * @returns {Promise<string>} - Decrypted data
+ */
+async function decryptSecrets(encryptedSecrets: string | SecretsBundles, options: KeyOptions = {}): Promise<string> {
+   if (typeof encryptedSecrets === 'string') {
+      return decrypt(encryptedSecrets, options);
+   }
+
+   const selected = resolveEnvironment(options.environment);
+   return decrypt(selectBundle(encryptedSecrets, selected), { ...options, environment: selected });
+}
+
+/**
+ * Decrypt and parse secrets, resolving `${KEY}` references when {options.interpolate} is set
  *
- * @param {string} encryptedSecrets - The encrypted secrets string
+ * @param {string | SecretsBundles} encryptedSecrets - Cipher text, or cipher text per environment
+ * @param {SecretsStoreOptions} options - The environment to load and interpolation options
+ * @param {EnvObject} [env] - Values for references missing from the payload, unless the options name their own
+ * @returns {Promise<Record<string, unknown>>} - The secrets
+ */
+async function decryptPayload(
+   encryptedSecrets: string | SecretsBundles,
+   options: Pick<SecretsStoreOptions, 'environment' | 'interpolate'>,
+   env?: EnvObject,
+): Promise<Record<string, unknown>> {
+   const payload = JSON.parse(await decryptSecrets(encryptedSecrets, { environment: options.environment }));
+   const interpolation = interpolateOptions(options.interpolate);
+
+   return interpolation ? interpolateSecrets(payload, { env, ...interpolation }) : payload;
+}
+
+/**
+ * Load encrypted secrets, decrypt them, and merge into the specified environment.
+ * Pass {options.schema} to validate the secrets and get them back typed. Without a schema, failures are logged
+ * and the unmodified environment is returned; with a schema they throw so missing keys surface at startup.
+ * Pass a map of cipher text per environment, as written by `buildEnvironments`, to load the bundle named by
+ * {options.environment}, `GITOPS_SECRETS_ENV`, `VERCEL_ENV` or `NODE_ENV`.
+ * Merge options such as `override`, `include` and `dryRun` are passed through to `mergeSecrets`.
+ * Use {options.interpolate} to resolve `${KEY}` references against the secrets and the target environment.
+ *
+ * @param {string | SecretsBundles} encryptedSecrets - The encrypted secrets string, or one per environment
  * @param {EnvTarget} target - The environment target to merge with
- * @returns {Promise<EnvObject>} - The environment with merged secrets
+ * @param {LoadSecretsOptions} [options] - Optional schema to validate against, environment to load and merge policy
+ * @returns {Promise<EnvObject>} - The environment with merged secrets, the validated secrets when a schema is given,
+ * or the changes when {options.dryRun} is set without a schema
  */
-async function loadSecrets(encryptedSecrets: string, target: EnvTarget = EnvTarget.PROCESS): Promise<EnvObject> {
+async function loadSecrets(
+   encryptedSecrets: string | SecretsBundles,
+   target: EnvTarget | undefined,
+   options: LoadSecretsOptions & { schema?: undefined; dryRun: true },
+): Promise<MergeDiff>;
+async function loadSecrets(
+   encryptedSecrets: string | SecretsBundles,
+   target?: EnvTarget,
+   options?: LoadSecretsOptions & { schema?: undefined },
+): Promise<EnvObject>;
+async function loadSecrets<const S extends SchemaLike>(
+   encryptedSecrets: string | SecretsBundles,
+   target: EnvTarget | undefined,
+   options: LoadSecretsOptions<S> & { schema: S },
+): Promise<InferSecrets<S>>;
+async function loadSecrets(
+   encryptedSecrets: string | SecretsBundles,
+   target: EnvTarget = EnvTarget.PROCESS,
+   options: LoadSecretsOptions = {},
+): Promise<unknown> {
+   if (options.schema) {
+      const rawPayload = await decryptPayload(encryptedSecrets, options, getEnvObject(target));
+      const secretsPayload = await validateSecrets(rawPayload, options.schema);
+
+      // Merge the decrypted values, encoded for the target, and hand back the ones coerced by the schema
+      if (!options.dryRun) {
+         mergeSecrets(rawPayload, target, options);
+      }
+      return secretsPayload;
+   }
+
    try {
-      const decryptedJson = await decrypt(encryptedSecrets);
-      const secretsPayload = JSON.parse(decryptedJson) as Record<string, string>;
+      const secretsPayload = await decryptPayload(encryptedSecrets, options, getEnvObject(target));
 
-      return mergeSecrets(secretsPayload, target);
+      return mergeSecrets(secretsPayload, target, options);
    } catch (error) {
       console.error('Failed to load secrets:', error);
       return getEnvObject(target);
    }
 }
 
-export { encrypt, decrypt, mergeSecrets, loadSecrets };
+/**
+ * Decrypt secrets once into a read-only store instead of merging them into the global environment,
+ * so they aren't inherited by child processes or readable by every dependency.
+ * Pass {options.schema} to validate the secrets and type the store's keys and values.
+ * Use {options.interpolate} to resolve `${KEY}` references against the secrets and `process.env`.
+ *
+ * @param {string | SecretsBundles} encryptedSecrets - The encrypted secrets string, or one per environment
+ * @param {SecretsStoreOptions} [options] - Optional schema to validate against and environment to load
+ * @returns {Promise<SecretsStore>} - The store
+ */
+async function createSecretsStore(
+   encryptedSecrets: string | SecretsBundles,
+   options?: SecretsStoreOptions & { schema?: undefined },
+): Promise<SecretsStore>;
+async function createSecretsStore<const S extends SchemaLike>(
+   encryptedSecrets: string | SecretsBundles,
+   options: SecretsStoreOptions<S> & { schema: S },
+): Promise<SecretsStore<InferSecrets<S>>>;
+async function createSecretsStore(
+   encryptedSecrets: string | SecretsBundles,
+   options: SecretsStoreOptions = {},
+): Promise<SecretsStore<Record<string, unknown>>> {
+   const decrypted = await decryptPayload(encryptedSecrets, options);
+   const payload = options.schema
+      ? ((await validateSecrets(decrypted, options.schema)) as Record<string, unknown>)
+      : decrypted;
+   const has = (key: string) => Object.prototype.hasOwnProperty.call(payload, key) && payload[key] !== undefined;
+
+   return {
+      get: (key) => (has(key) ? payload[key] : undefined),
+      require: (key) => {
+         if (!has(key)) {
+            throw new MissingSecretError(key);
+         }
+         return payload[key];
+      },
+      has,
+      toObject: () => ({ ...payload }),
+   };
+}
+
+/**
+ * Read the metadata of a cipher text without the master key.
+ * Legacy cipher texts only record the PBKDF2 rounds and key ID. Structured documents report their data key's envelope.
+ *
+ * @param {string} ciphertext - Data in format "gs2:header:encryptedData" or "base64:rounds:salt:iv:encryptedData[:keyId]"
+ * @returns {CipherTextInfo} - The envelope metadata
+ */
+function inspect(ciphertext: string): CipherTextInfo {
+   if (isDocument(ciphertext)) {
+      return {
+         ...inspect(parseDocument(ciphertext).dataKey),
+         format: 'structured',
+         size: new TextEncoder().encode(ciphertext).length,
+      };
+   }
+
+   if (isEnvelope(ciphertext)) {
+      const { header, data } = parseEnvelope(ciphertext);
+      return {
+         format: 'envelope',
+         version: header.version,
+         kdf: header.kdf,
+         hash: header.hash || null,
+         rounds: header.rounds || null,
+         cipher: header.cipher,
+         keyId: header.keyId || null,
+         createdAt: header.createdAt || null,
+         keyFingerprint: header.keyFingerprint || null,
+         metadata: header.metadata || null,
+         compression: header.compression || null,
+         chunkSize: header.chunkSize || null,
+         recipients: header.recipients?.map(({ algorithm, keyId }) => ({ algorithm, keyId })) || null,
+         size: data.length,
+      };
+   }
+
+   const { kdf, hash, rounds, keyId: payloadKeyId, data } = parseCipherText(ciphertext);
+   return {
+      format: 'legacy',
+      version: 1,
+      kdf,
+      hash,
+      rounds,
+      cipher: ALGORITHM,
+      keyId: payloadKeyId,
+      createdAt: null,
+      keyFingerprint: null,
+      metadata: null,
+      compression: null,
+      chunkSize: null,
+      recipients: null,
+      size: data.length,
+   };
+}
+
+/**
+ * Check that a cipher text decrypts with the configured keys, parses as a JSON object and contains the expected keys.
+ * Problems are reported in the result rather than thrown, so it can be used as a CI gate.
+ *
+ * @param {string | SecretsBundles} encryptedSecrets - The encrypted secrets string, or one per environment
+ * @param {VerifyOptions} [options] - Keys to require, a schema to validate against and the environment to verify
+ * @returns {Promise<VerifyResult>} - The verification report
+ */
+async function verify(encryptedSecrets: string | SecretsBundles, options: VerifyOptions = {}): Promise<VerifyResult> {
+   const result: VerifyResult = { valid: false, info: null, keys: [], missing: [], errors: [] };
+
+   try {
+      const environment =
+         typeof encryptedSecrets === 'string' ? options.environment : resolveEnvironment(options.environment);
+      const ciphertext =
+         typeof encryptedSecrets === 'string'
+            ? encryptedSecrets
+            : selectBundle(encryptedSecrets, environment as string);
+
+      result.info = inspect(ciphertext);
+      const payload = JSON.parse(await decrypt(ciphertext, { environment }));
+      if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+         throw new Error('Decrypted payload is not a JSON object');
+      }
+
+      result.keys = Object.keys(payload);
+      result.missing = (options.require || []).filter((key) => !Object.prototype.hasOwnProperty.call(payload, key));
+      if (result.missing.length > 0) {
+         result.errors.push(`Missing required secrets: ${result.missing.join(', ')}`);
+      }
+      if (options.schema) {
+         await validateSecrets(payload, options.schema);
+      }
+   } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+   }
+
+   result.valid = result.errors.length === 0;
+   return result;
+}
+
+/**
+ * Decrypt two versions of the secrets and report which keys were added, removed or changed, without their values.
+ * Values are compared in canonical JSON, so reordering keys or re-encrypting under another key isn't a change.
+ *
+ * @param {string | SecretsBundles} previous - The old cipher text, or cipher text per environment
+ * @param {string | SecretsBundles} current - The new cipher text, or cipher text per environment
+ * @param {KeyOptions} [options] - The environment to compare from maps of bundles, and the keys to decrypt with
+ * @returns {Promise<SecretsDiff>} - Key names per kind of change
+ */
+async function diff(
+   previous: string | SecretsBundles,
+   current: string | SecretsBundles,
+   options: KeyOptions = {},
+): Promise<SecretsDiff> {
+   return diffPayloads(
+      parsePayload(await decryptSecrets(previous, options)),
+      parsePayload(await decryptSecrets(current, options)),
+   );
+}
+
+/**
+ * Hash the decrypted secrets, e.g. to decide whether a deployment is needed.
+ * The hash is SHA-256 over canonical JSON, so it only changes when a key or value changes, not when the same
+ * secrets are re-encrypted. It isn't keyed: treat it as sensitive when every value in the payload is guessable.
+ *
+ * @param {string | SecretsBundles} encryptedSecrets - The encrypted secrets string, or one per environment
+ * @param {KeyOptions} [options] - The environment to hash from a map of bundles, and the keys to decrypt with
+ * @returns {Promise<string>} - Hex encoded hash
+ */
+async function contentHash(encryptedSecrets: string | SecretsBundles, options: KeyOptions = {}): Promise<string> {
+   return hashPlaintext(await decryptSecrets(encryptedSecrets, options));
+}
+
+export {
+   MissingSecretError,
+   createSecretsStore,
+   encrypt,
+   encryptStructured,
+   decrypt,
+   reencrypt,
+   inspect,
+   verify,
+   diff,
+   contentHash,
+   generateMasterKey,
+   generateRecipientKeyPair,
+   configureCache,
+   clearCache,
+   mergeSecrets,
+   loadSecrets,
+   validateSecrets,
+};
@@ -0,0 +1,226 @@
+import { base64ToUint8Array, uint8ArrayToBase64 } from './utils';
+
+const DOCUMENT_KEY = 'gitops-secrets';
+const DOCUMENT_VERSION = 1;
+const ALGORITHM = 'AES-GCM';
+const AES_IV_BYTES = 12;
+const DATA_KEY_BYTES = 32;
+const VALUE_PATTERN = /^ENC\[AES-GCM,iv:([A-Za-z0-9+/=]+),data:([A-Za-z0-9+/=]+)\]$/;
+
+type DocumentMetadata = {
+   version: number;
+   /** The data key, encrypted like any other payload */
+   dataKey: string;
+   /** HMAC over the key names and encrypted values */
+   mac: string;
+};
+
+type ParsedDocument = {
+   /** Encrypted value per key name, in document order */
+   values: Record<string, string>;
+   dataKey: string;
+   mac: string;
+};
+
+type DocumentKeys = {
+   valueKey: CryptoKey;
+   macKey: CryptoKey;
+};
+
+/**
+ * Check whether cipher text is a structured document rather than an envelope
+ *
+ * @param {string} ciphertext - The cipher text to check
+ * @returns {boolean}
+ */
+function isDocument(ciphertext: string): boolean {
+   if (!ciphertext.trimStart().startsWith('{')) {
+      return false;
+   }
+
+   try {
+      const document = JSON.parse(ciphertext);
+      return typeof document?.[DOCUMENT_KEY] === 'object' && document[DOCUMENT_KEY] !== null;
+   } catch {
+      return false;
+   }
+}
+
+/**
+ * Parse and validate a structured document
+ *
+ * @param {string} ciphertext - The document as written by `serializeDocument`
+ * @returns {ParsedDocument}
+ */
+function parseDocument(ciphertext: string): ParsedDocument {
+   const { [DOCUMENT_KEY]: metadata, ...values } = JSON.parse(ciphertext) as Record<string, unknown>;
+   const { version, dataKey, mac } = metadata as DocumentMetadata;
+
+   if (version !== DOCUMENT_VERSION) {
+      throw new Error(`Unsupported structured document version: ${version}`);
+   }
+   if (typeof dataKey !== 'string' || typeof mac !== 'string') {
+      throw new Error('Structured document invalid. Expected a data key and MAC');
+   }
+   for (const [name, value] of Object.entries(values)) {
+      if (typeof value !== 'string' || !VALUE_PATTERN.test(value)) {
+         throw new Error(`Structured document invalid. The value of '${name}' is not encrypted`);
+      }
+   }
+
+   return { values: values as Record<string, string>, dataKey, mac };
+}
+
+/**
+ * Serialize encrypted values with one key per line, so a changed secret changes one line
+ *
+ * @param {Record<string, string>} values - Encrypted value per key name
+ * @param {string} dataKey - The encrypted data key
+ * @param {string} mac - The document MAC
+ * @returns {string}
+ */
+function serializeDocument(values: Record<string, string>, dataKey: string, mac: string): string {
+   const metadata: DocumentMetadata = { version: DOCUMENT_VERSION, dataKey, mac };
+   return `${JSON.stringify({ ...values, [DOCUMENT_KEY]: metadata }, null, 2)}\n`;
+}
+
+/**
+ * Check that a payload can be written as a structured document
+ *
+ * @param {Record<string, unknown>} payload - The secrets
+ */
+function assertDocumentPayload(payload: Record<string, unknown>) {
+   if (Object.prototype.hasOwnProperty.call(payload, DOCUMENT_KEY)) {
+      throw new Error(`'${DOCUMENT_KEY}' is reserved for the metadata of structured documents`);
+   }
+}
+
+/**
+ * Generate a random data key for a new document
+ *
+ * @returns {Uint8Array}
+ */
+function generateDataKey(): Uint8Array {
+   return crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+}
+
+/**
+ * Derive separate keys for encrypting values and for the MAC from the data key
+ *
+ * @param {Uint8Array} dataKey - The raw data key
+ * @returns {Promise<DocumentKeys>}
+ */
+async function documentKeys(dataKey: Uint8Array): Promise<DocumentKeys> {
+   if (dataKey.length !== DATA_KEY_BYTES) {
+      throw new Error('Structured document invalid. The data key must be 256 bits');
+   }
+
+   const hkdfKey = await crypto.subtle.importKey('raw', dataKey, 'HKDF', false, ['deriveKey']);
+   const derive = (info: string, algorithm: AesKeyGenParams | HmacImportParams, usages: KeyUsage[]) =>
+      crypto.subtle.deriveKey(
+         { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: new TextEncoder().encode(info) },
+         hkdfKey,
+         algorithm,
+         false,
+         usages,
+      );
+
+   return {
+      valueKey: await derive(`${DOCUMENT_KEY}:values`, { name: ALGORITHM, length: 256 }, ['encrypt', 'decrypt']),
+      macKey: await derive(`${DOCUMENT_KEY}:mac`, { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign', 'verify']),
+   };
+}
+
+/**
+ * Encrypt one value. The key name is bound as additional authenticated data, so values can't be moved between keys.
+ *
+ * @param {CryptoKey} valueKey - The document's value key
+ * @param {string} name - The key name
+ * @param {unknown} value - The value, stored as JSON so its type survives
+ * @returns {Promise<string>} - The value in format "ENC[AES-GCM,iv:...,data:...]"
+ */
+async function encryptValue(valueKey: CryptoKey, name: string, value: unknown): Promise<string> {
+   const iv = crypto.getRandomValues(new Uint8Array(AES_IV_BYTES));
+   const encrypted = await crypto.subtle.encrypt(
+      { name: ALGORITHM, iv, additionalData: new TextEncoder().encode(name) },
+      valueKey,
+      new TextEncoder().encode(JSON.stringify(value)),
+   );
+
+   return `ENC[${ALGORITHM},iv:${uint8ArrayToBase64(iv)},data:${uint8ArrayToBase64(new Uint8Array(encrypted))}]`;
+}
+
+/**
+ * Decrypt a value written by `encryptValue`
+ *
+ * @param {CryptoKey} valueKey - The document's value key
+ * @param {string} name - The key name
+ * @param {string} encrypted - The value in format "ENC[AES-GCM,iv:...,data:...]"
+ * @returns {Promise<unknown>}
+ */
+async function decryptValue(valueKey: CryptoKey, name: string, encrypted: string): Promise<unknown> {
+   const [, iv, data] = VALUE_PATTERN.exec(encrypted) || [];
+   try {
+      const decrypted = await crypto.subtle.decrypt(
+         { name: ALGORITHM, iv: base64ToUint8Array(iv), additionalData: new TextEncoder().encode(name) },
+         valueKey,
+         base64ToUint8Array(data),
+      );
+      return JSON.parse(new TextDecoder().decode(decrypted));
+   } catch {
+      throw new Error(`The value of '${name}' could not be decrypted`);
+   }
+}
+
+function macInput(values: Record<string, string>): Uint8Array {
+   const entries = Object.entries(values).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+   return new TextEncoder().encode(JSON.stringify(entries));
+}
+
+/**
+ * Authenticate the whole document: every key name and encrypted value, independent of key order.
+ * Adding, removing or swapping in a value from another version of the document invalidates it.
+ *
+ * @param {CryptoKey} macKey - The document's MAC key
+ * @param {Record<string, string>} values - Encrypted value per key name
+ * @returns {Promise<string>} - Base64 encoded HMAC-SHA-256
+ */
+async function documentMac(macKey: CryptoKey, values: Record<string, string>): Promise<string> {
+   const signature = await crypto.subtle.sign('HMAC', macKey, macInput(values));
+
+   return uint8ArrayToBase64(new Uint8Array(signature));
+}
+
+/**
+ * Check a document's MAC
+ *
+ * @param {CryptoKey} macKey - The document's MAC key
+ * @param {ParsedDocument} document - The parsed document
+ */
+async function verifyDocumentMac(macKey: CryptoKey, document: ParsedDocument) {
+   let mac: Uint8Array;
+   try {
+      mac = base64ToUint8Array(document.mac);
+   } catch {
+      mac = new Uint8Array();
+   }
+
+   const valid = await crypto.subtle.verify('HMAC', macKey, mac, macInput(document.values));
+   if (!valid) {
+      throw new Error('Structured document MAC mismatch. Keys or values were added, removed or changed');
+   }
+}
+
+export {
+   assertDocumentPayload,
+   decryptValue,
+   documentKeys,
+   documentMac,
+   encryptValue,
+   generateDataKey,
+   isDocument,
+   parseDocument,
+   serializeDocument,
+   verifyDocumentMac,
+};
+export type { ParsedDocument };
@@ -1,5 +1,12 @@
+import type { PROVIDER_SPEC } from './providers/registry';
+
+/**
+ * Where merged secrets are written. Secrets stores never write to either and keep native types.
+ */
 export enum EnvTarget {
+   /** `process.env`, which only holds strings: scalars are stringified and arrays and objects JSON-encoded */
    PROCESS = 'process',
+   /** `import.meta.env`, which keeps numbers, booleans, arrays and objects as they were in the payload */
    IMPORT_META = 'import.meta',
 }
 
@@ -7,6 +14,451 @@ type EnvObject = {
    [key: string]: string | boolean | number | undefined | null | object;
 };
 
-type Provider = 'doppler';
+type Provider =
+   | 'doppler'
+   | 'vault'
+   | 'awsSecretsManager'
+   | 'onePassword'
+   | 'infisical'
+   | 'dotenv'
+   | 'jsonFile'
+   | 'yamlFile';
+
+/**
+ * A source of secrets. Built-in providers are registered under their `Provider` name;
+ * register in-house backends with `registerProvider`.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Each provider defines its own options
+interface SecretProvider<Options = any> {
+   name: string;
+   fetchSecrets(options: Options): Promise<Record<string, string>>;
+   /** Throw when the options can't work, before any request is made */
+   validate?(options: Options): void | Promise<void>;
+}
+
+type ProviderSpec = {
+   /** A registered provider name or a provider object */
+   provider: Provider | (string & {}) | SecretProvider;
+   // biome-ignore lint/suspicious/noExplicitAny: Each provider defines its own options
+   options?: Record<string, any>;
+};
+
+/** A provider spec created by `fromProvider`, marked so it can't be mistaken for a payload */
+type ProviderInput = ProviderSpec & { readonly [PROVIDER_SPEC]: true };
+
+/** A pre-fetched payload, or provider specs created by `fromProvider` to fetch it from */
+// biome-ignore lint/suspicious/noExplicitAny: Payloads are arbitrary JSON
+type SecretsInput = Record<string, any> | ProviderInput | ProviderInput[];
+
+type SchemaFieldType = 'string' | 'number' | 'boolean' | 'url' | 'json';
+
+/**
+ * A field of the built-in schema format. `number` and `boolean` coerce string values, `json` parses them,
+ * and `url` checks the value is an absolute URL.
+ */
+type SchemaField =
+   | SchemaFieldType
+   | {
+        type: SchemaFieldType;
+        optional?: boolean;
+        pattern?: RegExp;
+     };
+
+type SecretsSchema = Record<string, SchemaField>;
+
+/** The Standard Schema interface implemented by zod, valibot, arktype and others. See https://standardschema.dev */
+interface StandardSchemaV1<Input = unknown, Output = Input> {
+   readonly '~standard': {
+      readonly version: 1;
+      readonly vendor: string;
+      readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+      readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+   };
+}
+
+type StandardSchemaResult<Output> =
+   | { readonly value: Output; readonly issues?: undefined }
+   | {
+        readonly issues: ReadonlyArray<{
+           readonly message: string;
+           readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+        }>;
+     };
+
+type SchemaLike = SecretsSchema | StandardSchemaV1;
+
+type SchemaFieldOutput<F> = F extends 'number' | { type: 'number' }
+   ? number
+   : F extends 'boolean' | { type: 'boolean' }
+     ? boolean
+     : F extends 'json' | { type: 'json' }
+       ? unknown
+       : string;
+
+/** The typed secrets object produced by validating against a schema */
+type InferSecrets<S> = S extends StandardSchemaV1<unknown, infer Output>
+   ? Output
+   : S extends SecretsSchema
+     ? {
+          [K in keyof S as S[K] extends { optional: true } ? never : K]: SchemaFieldOutput<S[K]>;
+       } & {
+          [K in keyof S as S[K] extends { optional: true } ? K : never]?: SchemaFieldOutput<S[K]>;
+       }
+     : Record<string, string>;
+
+type MergeOptions = {
+   /**
+    * Whether existing values in the target are replaced. `true` (the default) replaces them, `false` keeps them,
+    * and a list of key globs only replaces matching keys
+    */
+   override?: boolean | string[];
+   /** Only merge keys matching one of these globs, e.g. `['PUBLIC_*']` */
+   include?: string[];
+   /** Never merge keys matching one of these globs */
+   exclude?: string[];
+   /** Only merge keys starting with this prefix */
+   prefix?: string;
+   /** Remove {prefix} from key names before writing them */
+   stripPrefix?: boolean;
+   /** Prepend to key names before writing them, e.g. `VITE_` */
+   addPrefix?: string;
+   /** Return the changes that would be made without writing anything */
+   dryRun?: boolean;
+   /** Write nested objects as `PARENT__CHILD` keys; pass a string to use another separator */
+   flatten?: boolean | string;
+};
 
-export type { EnvObject, Provider };
+/** Target key names affected by a merge. Values are never included */
+type MergeDiff = {
+   added: string[];
+   changed: string[];
+   unchanged: string[];
+   /** Keys with a different existing value that the override policy kept */
+   skipped: string[];
+};
+
+/** Key names that differ between two payloads. Values are never included */
+type SecretsDiff = {
+   added: string[];
+   removed: string[];
+   changed: string[];
+   unchanged: string[];
+};
+
+type LoadSecretsOptions<S extends SchemaLike = SchemaLike> = MergeOptions & {
+   schema?: S;
+   /** Resolve `${KEY}` references after decrypting */
+   interpolate?: boolean | InterpolateOptions;
+   /**
+    * Bundle to load from a map of bundles; also selects `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` when set.
+    * Cipher text whose metadata records a different environment is rejected.
+    */
+   environment?: string;
+};
+
+/** Read-only access to decrypted secrets that never writes to `process.env` or `import.meta.env` */
+interface SecretsStore<T = Record<string, unknown>> {
+   /** The value of a key, or `undefined` when it is not set */
+   get<K extends keyof T & string>(key: K): T[K] | undefined;
+   /** The value of a key, throwing a `MissingSecretError` naming the key when it is not set */
+   require<K extends keyof T & string>(key: K): Exclude<T[K], undefined>;
+   has(key: string): boolean;
+   /** A shallow copy of every secret */
+   toObject(): T;
+}
+
+type SecretsStoreOptions<S extends SchemaLike = SchemaLike> = {
+   schema?: S;
+   /** Resolve `${KEY}` references after decrypting */
+   interpolate?: boolean | InterpolateOptions;
+   /**
+    * Bundle to load from a map of bundles; also selects `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` when set.
+    * Cipher text whose metadata records a different environment is rejected.
+    */
+   environment?: string;
+};
+
+type RefreshOptions<S extends SchemaLike = SchemaLike> = SecretsStoreOptions<S> & {
+   /** Provider specs created by `fromProvider`, fetched on every refresh */
+   input: SecretsInput;
+   /**
+    * Cipher text, or cipher text per environment, to decrypt when the provider can't be reached at startup,
+    * e.g. the module written by `build`
+    */
+   fallback?: string | SecretsBundles;
+   /** Milliseconds between refreshes. Defaults to 5 minutes; 0 only refreshes when `refresh()` is called */
+   ttl?: number;
+};
+
+type WatchSecretsOptions<S extends SchemaLike = SchemaLike> = RefreshOptions<S> &
+   Omit<MergeOptions, 'dryRun'> & {
+      /** The environment to merge into. Defaults to `process.env` */
+      target?: EnvTarget;
+   };
+
+/** Where a refreshing store's current values came from */
+type SecretsSource = 'provider' | 'fallback';
+
+/** Secrets that are fetched again from their provider every {ttl} milliseconds */
+interface RefreshingStore<T = Record<string, unknown>> extends SecretsStore<T> {
+   /** Where the current values came from */
+   readonly source: SecretsSource;
+   /** Fetch from the provider now. Rejects, keeping the current values, when the fetch or validation fails */
+   refresh(): Promise<SecretsDiff>;
+   /**
+    * Listen for changed key names after a refresh, or for failed scheduled refreshes and `change` listeners.
+    * Returns an unsubscribe function
+    */
+   on(event: 'change', listener: (diff: SecretsDiff) => void): () => void;
+   on(event: 'error', listener: (error: Error) => void): () => void;
+   /** Stop refreshing */
+   close(): void;
+}
+
+type KeyOptions = {
+   /**
+    * Use `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` when set instead of `GITOPS_SECRETS_MASTER_KEY`.
+    * When decrypting, cipher text whose metadata names a different environment is rejected.
+    */
+   environment?: string;
+   /** Private key that unwraps cipher text encrypted for recipients. Defaults to `GITOPS_SECRETS_PRIVATE_KEY` */
+   privateKey?: RecipientKey;
+};
+
+/** Key agreement or key transport used to wrap the data key for a recipient */
+type RecipientAlgorithm = 'RSA-OAEP-256' | 'ECDH-P256' | 'X25519';
+
+/** A PEM or base64 DER encoded key, a JWK, or a key imported with Web Crypto */
+type RecipientKey = string | JsonWebKey | CryptoKey;
+
+/** The data key wrapped for one recipient */
+type RecipientHeader = {
+   algorithm: RecipientAlgorithm;
+   /** Start of the SHA-256 hash of the recipient's public key */
+   keyId: string;
+   /** Raw ephemeral public key for ECDH-P256 and X25519 */
+   ephemeralKey?: string;
+   wrappedKey: string;
+};
+
+/** Build details stored readably in the envelope header and authenticated along with the payload */
+type BuildMetadata = {
+   /** Environment the payload was built for, checked against the environment it is decrypted for */
+   environment?: string;
+   /** Source commit the payload was built from */
+   commit?: string;
+   /** Key names in the payload */
+   keys?: string[];
+};
+
+/** Compression applied before encryption */
+type Compression = 'gzip' | 'deflate';
+
+type EncryptOptions = KeyOptions & {
+   metadata?: BuildMetadata;
+   compression?: Compression;
+   /** Payloads larger than this many bytes are encrypted as separately authenticated chunks. Defaults to 64 KiB. */
+   chunkSize?: number;
+   /**
+    * Encrypt under a random data key wrapped for each of these public keys instead of the master key.
+    * Defaults to `GITOPS_SECRETS_RECIPIENTS` when set.
+    */
+   recipients?: RecipientKey[];
+   /**
+    * Cipher text written last time. It is returned as is when it decrypts to the same payload, ignoring key order,
+    * and is encrypted the way this call would encrypt it, so rebuilding unchanged secrets doesn't rewrite files.
+    */
+   previous?: string;
+};
+
+type StructuredEncryptOptions = KeyOptions &
+   Pick<EncryptOptions, 'metadata' | 'recipients'> & {
+      /**
+       * The document written last time. When it decrypts with the current key, its data key and the cipher text
+       * of unchanged values are kept, so only changed secrets show up in diffs.
+       */
+      previous?: string;
+   };
+
+/** Cipher text per environment name */
+type SecretsBundles = Record<string, string>;
+
+type InterpolateOptions = {
+   /** Values for references missing from the payload. Defaults to `process.env`, or the load target */
+   env?: EnvObject;
+};
+
+/**
+ * Output format of the module written by `build`.
+ * `ts` writes TypeScript, `json` only the cipher text, and `dual` both `.mjs` and `.cjs` modules.
+ */
+type ModuleFormat = 'esm' | 'cjs' | 'ts' | 'json' | 'dual';
+
+type BuildOptions = {
+   path?: string | null;
+   cipherTextOnly?: boolean;
+   /** Defaults to the format implied by the file extension, then `npm_package_type` */
+   format?: ModuleFormat;
+   /** Module the generated code imports the runtime from. Defaults to `@jacobwolf/gitops-secrets/no-fs`. */
+   importSpecifier?: string;
+   schema?: SchemaLike;
+   declarations?: boolean;
+   /** Resolve `${KEY}` references before encrypting */
+   interpolate?: boolean | InterpolateOptions;
+   /** Record the commit and key names in the envelope header, plus any fields given explicitly */
+   metadata?: boolean | BuildMetadata;
+   /** Compress the payload before encrypting it */
+   compression?: Compression;
+   /** Encrypt for these public keys instead of the master key */
+   recipients?: RecipientKey[];
+};
+
+type EncryptToFileOptions = {
+   path?: string | null;
+   schema?: SchemaLike;
+   /** Resolve `${KEY}` references before encrypting */
+   interpolate?: boolean | InterpolateOptions;
+   /** Record the commit and key names in the envelope header, plus any fields given explicitly */
+   metadata?: boolean | BuildMetadata;
+   /** Compress the payload before encrypting it */
+   compression?: Compression;
+   /** Encrypt for these public keys instead of the master key */
+   recipients?: RecipientKey[];
+   /** Write a JSON document with readable key names and each value encrypted separately */
+   structured?: boolean;
+};
+
+type BundlerPluginOptions = Omit<EncryptToFileOptions, 'path' | 'structured'> & {
+   /** Payload or provider specs, fetched and encrypted once per build */
+   input: SecretsInput;
+   /** Import that resolves to the generated module. Defaults to `virtual:gitops-secrets`. */
+   moduleId?: string;
+   /** Identifier replaced with the cipher text string literal. Defaults to `__GITOPS_SECRETS_CIPHER_TEXT__`. */
+   placeholder?: string;
+   /** Module the generated module imports the runtime from. Defaults to `@jacobwolf/gitops-secrets/no-fs`. */
+   importSpecifier?: string;
+};
+
+type EnvelopeHeader = {
+   version: number;
+   kdf: string;
+   hash?: string;
+   rounds?: number;
+   salt?: string;
+   cipher: string;
+   iv: string;
+   keyId?: string;
+   /** ISO 8601 time the payload was encrypted */
+   createdAt?: string;
+   /** Identifies a raw master key without revealing it, see `inspect`. Not recorded for passphrases */
+   keyFingerprint?: string;
+   metadata?: BuildMetadata;
+   compression?: Compression;
+   /** Plaintext bytes per chunk when the data is split into separately authenticated chunks */
+   chunkSize?: number;
+   /** The data key wrapped for each recipient, when encrypted for public keys rather than the master key */
+   recipients?: RecipientHeader[];
+};
+
+/** Envelope metadata readable without the master key */
+type CipherTextInfo = {
+   /**
+    * `envelope` for `gs2:` cipher text, `legacy` for the colon-separated format and `structured` for documents with
+    * separately encrypted values, whose other fields describe the encrypted data key
+    */
+   format: 'envelope' | 'legacy' | 'structured';
+   version: number;
+   kdf: string;
+   hash: string | null;
+   rounds: number | null;
+   cipher: string;
+   keyId: string | null;
+   createdAt: string | null;
+   keyFingerprint: string | null;
+   metadata: BuildMetadata | null;
+   compression: Compression | null;
+   chunkSize: number | null;
+   /** Who can decrypt cipher text encrypted for recipients */
+   recipients: Pick<RecipientHeader, 'algorithm' | 'keyId'>[] | null;
+   /** Size of the encrypted data in bytes, or of the whole structured document */
+   size: number;
+};
+
+type VerifyOptions<S extends SchemaLike = SchemaLike> = {
+   /** Keys the payload must contain */
+   require?: string[];
+   schema?: S;
+   /**
+    * Bundle to verify from a map of bundles; also selects `GITOPS_SECRETS_<ENVIRONMENT>_MASTER_KEY` when set.
+    * Cipher text whose metadata records a different environment fails verification.
+    */
+   environment?: string;
+};
+
+type VerifyResult = {
+   valid: boolean;
+   /** Null when the cipher text could not be parsed */
+   info: CipherTextInfo | null;
+   /** Key names in the payload, empty when it could not be decrypted */
+   keys: string[];
+   missing: string[];
+   errors: string[];
+};
+
+type CacheOptions = {
+   enabled: boolean;
+   /** Milliseconds before a cached entry expires. 0 keeps entries until `clearCache()` */
+   ttl?: number;
+   /** Also cache decrypted payloads, not only derived keys */
+   payloads?: boolean;
+};
+
+/** Storage a provider saves fetched secrets to and reads them back from when it can't be reached */
+type FallbackCache = {
+   read: () => Promise<Record<string, string>>;
+   write: (secrets: Record<string, string>) => Promise<void>;
+};
+
+export type {
+   BuildMetadata,
+   BuildOptions,
+   BundlerPluginOptions,
+   CacheOptions,
+   CipherTextInfo,
+   Compression,
+   EncryptOptions,
+   EncryptToFileOptions,
+   EnvObject,
+   EnvelopeHeader,
+   FallbackCache,
+   InferSecrets,
+   InterpolateOptions,
+   KeyOptions,
+   LoadSecretsOptions,
+   MergeDiff,
+   MergeOptions,
+   ModuleFormat,
+   Provider,
+   ProviderInput,
+   ProviderSpec,
+   RecipientAlgorithm,
+   RecipientHeader,
+   RecipientKey,
+   RefreshOptions,
+   RefreshingStore,
+   SchemaField,
+   SchemaLike,
+   SecretProvider,
+   SecretsBundles,
+   SecretsDiff,
+   SecretsInput,
+   SecretsSchema,
+   SecretsSource,
+   SecretsStore,
+   SecretsStoreOptions,
+   StandardSchemaV1,
+   StructuredEncryptOptions,
+   VerifyOptions,
+   VerifyResult,
+   WatchSecretsOptions,
+};
@@ -1,3 +1,6 @@
+// Bytes converted per String.fromCharCode call, well below engine argument limits
+const BASE64_SLICE_BYTES = 0x8000;
+
 /**
  * Convert a base64 string to a Uint8Array
  *
@@ -22,11 +25,81 @@ function base64ToUint8Array(base64: string): Uint8Array {
  * @returns {string} - Base64 encoded string
  */
 function uint8ArrayToBase64(buffer: Uint8Array): string {
-   return btoa(
-      Array.from(buffer)
-         .map((byte) => String.fromCharCode(byte))
-         .join(''),
-   );
+   // Convert in slices: one string per byte is slow for large payloads, and spreading everything at once
+   // overflows the call stack
+   const slices: string[] = [];
+   for (let i = 0; i < buffer.length; i += BASE64_SLICE_BYTES) {
+      slices.push(String.fromCharCode(...buffer.subarray(i, i + BASE64_SLICE_BYTES)));
+   }
+
+   return btoa(slices.join(''));
+}
+
+/**
+ * Join byte arrays into one
+ *
+ * @param {Uint8Array[]} arrays
+ * @returns {Uint8Array}
+ */
+function concatUint8Arrays(arrays: Uint8Array[]): Uint8Array {
+   const joined = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+   let offset = 0;
+   for (const array of arrays) {
+      joined.set(array, offset);
+      offset += array.length;
+   }
+
+   return joined;
+}
+
+/**
+ * Convert a hex string to a Uint8Array
+ *
+ * @param {string} hex
+ * @returns {Uint8Array}
+ */
+function hexToUint8Array(hex: string): Uint8Array {
+   if (hex.length % 2 !== 0) {
+      throw new Error('Hex string must have an even length');
+   }
+
+   const bytes = new Uint8Array(hex.length / 2);
+
+   for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Number.parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+   }
+
+   return bytes;
+}
+
+/**
+ * Read an environment variable from process.env, falling back to import.meta.env
+ *
+ * @param {string} name - The variable name
+ * @returns {string | undefined}
+ */
+function readEnv(name: string): string | undefined {
+   if (typeof process !== 'undefined' && process.env?.[name]) {
+      return process.env[name];
+   }
+
+   if (typeof import.meta !== 'undefined' && import.meta.env?.[name]) {
+      return import.meta.env[name];
+   }
+
+   return undefined;
+}
+
+/**
+ * Convert a Uint8Array to a lowercase hex string
+ *
+ * @param {Uint8Array} buffer
+ * @returns {string}
+ */
+function uint8ArrayToHex(buffer: Uint8Array): string {
+   return Array.from(buffer)
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
 }
 
-export { uint8ArrayToBase64, base64ToUint8Array };
+export { uint8ArrayToBase64, base64ToUint8Array, concatUint8Arrays, hexToUint8Array, uint8ArrayToHex, readEnv };
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { compress, decompress, decryptChunks, encryptChunks } from '../src/chunks';
+import { decrypt, encrypt, generateMasterKey, inspect, reencrypt } from '../src/secrets';
+
+const readHeader = (cipherText: string) => JSON.parse(atob(cipherText.split(':')[1]));
+
+describe('chunks', () => {
+   const iv = new Uint8Array(12).fill(7);
+   const additionalData = new TextEncoder().encode('header');
+   const data = new TextEncoder().encode('abcdefghijklmnopqrstuvwxyz');
+   let key: CryptoKey;
+
+   beforeEach(async () => {
+      key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+   });
+
+   describe('encryptChunks', () => {
+      it('should round trip data split into chunks', async () => {
+         const encrypted = await encryptChunks(key, iv, additionalData, data, 10);
+
+         // Three chunks, each with a 16 byte tag
+         expect(encrypted).toHaveLength(data.length + 3 * 16);
+         expect(await decryptChunks(key, iv, additionalData, encrypted, 10)).toEqual(data);
+      });
+
+      it('should round trip empty data as a single chunk', async () => {
+         const encrypted = await encryptChunks(key, iv, additionalData, new Uint8Array(0), 10);
+
+         expect(encrypted).toHaveLength(16);
+         expect(await decryptChunks(key, iv, additionalData, encrypted, 10)).toHaveLength(0);
+      });
+
+      it('should fail when chunks are reordered', async () => {
+         const encrypted = await encryptChunks(key, iv, additionalData, data.subarray(0, 20), 10);
+         const swapped = new Uint8Array([...encrypted.subarray(26), ...encrypted.subarray(0, 26)]);
+
+         await expect(decryptChunks(key, iv, additionalData, swapped, 10)).rejects.toThrow();
+      });
+
+      it('should fail when trailing chunks are dropped', async () => {
+         const encrypted = await encryptChunks(key, iv, additionalData, data, 10);
+
+         await expect(decryptChunks(key, iv, additionalData, encrypted.subarray(0, 52), 10)).rejects.toThrow();
+      });
+   });
+
+   describe('compress', () => {
+      it.each(['gzip', 'deflate'] as const)('should round trip %s', async (compression) => {
+         const repetitive = new TextEncoder().encode('secret'.repeat(1000));
+         const compressed = await compress(repetitive, compression);
+
+         expect(compressed.length).toBeLessThan(repetitive.length / 10);
+         expect(await decompress(compressed, compression)).toEqual(repetitive);
+      });
+
+      it('should reject unsupported formats', async () => {
+         // biome-ignore lint/suspicious/noExplicitAny: Testing an invalid value
+         await expect(compress(data, 'brotli' as any)).rejects.toThrow(
+            'Unsupported compression: brotli. Expected one of gzip, deflate',
+         );
+      });
+   });
+
+   describe('encrypt', () => {
+      beforeEach(() => {
+         vi.stubEnv('GITOPS_SECRETS_KEY_MODE', 'raw');
+         vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+      });
+
+      afterEach(() => {
+         vi.unstubAllEnvs();
+      });
+
+      it('should chunk payloads larger than the chunk size and keep small ones whole', async () => {
+         const payload = JSON.stringify({ CERTIFICATE: 'x'.repeat(100) });
+
+         const chunked = await encrypt(payload, { chunkSize: 32 });
+         const whole = await encrypt(payload);
+
+         expect(readHeader(chunked).chunkSize).toBe(32);
+         expect(readHeader(whole)).not.toHaveProperty('chunkSize');
+         expect(await decrypt(chunked)).toBe(payload);
+         expect(await decrypt(whole)).toBe(payload);
+      });
+
+      it('should compress before encrypting and keep the settings when re-encrypting', async () => {
+         const payload = JSON.stringify({ SERVICE_ACCOUNT: 'key'.repeat(10000) });
+
+         const cipherText = await encrypt(payload, { compression: 'gzip', chunkSize: 16 });
+         const rotated = await reencrypt(cipherText);
+
+         expect(inspect(cipherText)).toMatchObject({ compression: 'gzip', chunkSize: 16 });
+         expect(inspect(cipherText).size).toBeLessThan(payload.length / 10);
+         expect(inspect(rotated)).toMatchObject({ compression: 'gzip', chunkSize: 16 });
+         expect(await decrypt(rotated)).toBe(payload);
+      });
+
+      it('should round trip multi-megabyte payloads', async () => {
+         const payload = JSON.stringify({ BUNDLE: Array.from({ length: 300000 }, (_, i) => i.toString(36)).join('') });
+
+         const cipherText = await encrypt(payload);
+
+         expect(payload.length).toBeGreaterThan(1000000);
+         expect(inspect(cipherText).chunkSize).toBe(64 * 1024);
+         expect(await decrypt(cipherText)).toBe(payload);
+      });
+
+      it('should reject invalid chunk sizes', async () => {
+         await expect(encrypt('{}', { chunkSize: 0.5 })).rejects.toThrow('Invalid chunk size: 0.5');
+      });
+   });
+});
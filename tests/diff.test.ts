@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+   clearCache,
+   contentHash,
+   diff,
+   encrypt,
+   encryptStructured,
+   generateMasterKey,
+   generateRecipientKeyPair,
+} from '../src/secrets';
+
+describe('diff', () => {
+   const payload = { API_KEY: 'test-api-key', PORT: 8080, FEATURES: { beta: true, search: false } };
+
+   beforeEach(() => {
+      vi.stubEnv('GITOPS_SECRETS_KEY_MODE', 'raw');
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+   });
+
+   afterEach(() => {
+      vi.unstubAllEnvs();
+      clearCache();
+   });
+
+   describe('diff', () => {
+      it('should report added, removed and changed keys without values', async () => {
+         const previous = await encrypt(JSON.stringify(payload));
+         const current = await encrypt(
+            JSON.stringify({ API_KEY: 'rotated', PORT: 8080, DATABASE_URL: 'postgres://db' }),
+         );
+
+         const result = await diff(previous, current);
+
+         expect(result).toEqual({
+            added: ['DATABASE_URL'],
+            removed: ['FEATURES'],
+            changed: ['API_KEY'],
+            unchanged: ['PORT'],
+         });
+         expect(JSON.stringify(result)).not.toContain('rotated');
+      });
+
+      it('should ignore key order and how the payload was encrypted', async () => {
+         const previous = await encrypt(JSON.stringify(payload), { compression: 'gzip' });
+         const current = await encryptStructured({
+            FEATURES: { search: false, beta: true },
+            PORT: 8080,
+            API_KEY: 'test-api-key',
+         });
+
+         expect(await diff(previous, current)).toEqual({
+            added: [],
+            removed: [],
+            changed: [],
+            unchanged: ['FEATURES', 'PORT', 'API_KEY'],
+         });
+      });
+
+      it('should compare the bundle of one environment', async () => {
+         const bundles = async (port: number) => ({
+            production: await encrypt(JSON.stringify({ PORT: port }), { metadata: { environment: 'production' } }),
+            preview: await encrypt(JSON.stringify({ PORT: 1 }), { metadata: { environment: 'preview' } }),
+         });
+         const previous = await bundles(8080);
+         const current = await bundles(9090);
+
+         expect((await diff(previous, current, { environment: 'production' })).changed).toEqual(['PORT']);
+         expect((await diff(previous, current, { environment: 'preview' })).changed).toEqual([]);
+      });
+
+      it('should reject payloads that are not JSON objects', async () => {
+         await expect(diff(await encrypt('[1]'), await encrypt('{}'))).rejects.toThrow(
+            'Decrypted payload is not a JSON object',
+         );
+      });
+   });
+
+   describe('contentHash', () => {
+      it('should hash the same secrets the same, however they were encrypted', async () => {
+         const hash = await contentHash(await encrypt(JSON.stringify(payload)));
+
+         expect(hash).toMatch(/^[0-9a-f]{64}$/);
+         expect(await contentHash(await encrypt(JSON.stringify(payload)))).toBe(hash);
+         expect(await contentHash(await encryptStructured(payload))).toBe(hash);
+         expect(await contentHash(await encrypt(JSON.stringify({ ...payload, PORT: 9090 })))).not.toBe(hash);
+      });
+   });
+
+   describe('encrypt with the previous cipher text', () => {
+      it('should return the previous cipher text when nothing changed', async () => {
+         const previous = await encrypt(JSON.stringify(payload), { metadata: { commit: 'abc123' } });
+
+         expect(
+            await encrypt(
+               JSON.stringify({ PORT: 8080, FEATURES: { search: false, beta: true }, API_KEY: 'test-api-key' }),
+               {
+                  metadata: { commit: 'abc123' },
+                  previous,
+               },
+            ),
+         ).toBe(previous);
+      });
+
+      it.each([
+         ['a value changed', { ...payload, PORT: 9090 }, {}],
+         ['the metadata changed', payload, { metadata: { commit: 'def456' } }],
+         ['the compression changed', payload, { compression: 'gzip' as const }],
+      ])('should encrypt again when %s', async (_case, next, options) => {
+         const previous = await encrypt(JSON.stringify(payload), { metadata: { commit: 'abc123' } });
+
+         const current = await encrypt(JSON.stringify(next), { metadata: { commit: 'abc123' }, ...options, previous });
+
+         expect(current).not.toBe(previous);
+      });
+
+      it('should encrypt again under a new master key', async () => {
+         const previous = await encrypt(JSON.stringify(payload));
+         vi.stubEnv('GITOPS_SECRETS_MASTER_KEY_PREVIOUS', process.env.GITOPS_SECRETS_MASTER_KEY);
+         vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+
+         expect(await encrypt(JSON.stringify(payload), { previous })).not.toBe(previous);
+      });
+
+      it('should encrypt again when the recipients changed or the previous cipher text does not decrypt', async () => {
+         const first = await generateRecipientKeyPair();
+         const second = await generateRecipientKeyPair();
+         const previous = await encrypt(JSON.stringify(payload), { recipients: [first.publicKey] });
+
+         expect(
+            await encrypt(JSON.stringify(payload), {
+               recipients: [first.publicKey],
+               privateKey: first.privateKey,
+               previous,
+            }),
+         ).toBe(previous);
+         expect(await encrypt(JSON.stringify(payload), { recipients: [first.publicKey], previous })).not.toBe(previous);
+         expect(
+            await encrypt(JSON.stringify(payload), {
+               recipients: [second.publicKey],
+               privateKey: first.privateKey,
+               previous,
+            }),
+         ).not.toBe(previous);
+      });
+   });
+});
@@ -0,0 +1,182 @@
+import path from 'node:path';
+import { fs as memfs, vol } from 'memfs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { esbuildPlugin, rollupPlugin, webpackPlugin } from '../src/plugins';
+import * as secretsFilesModule from '../src/secrets-files';
+
+vi.mock('../src/secrets-files', () => ({
+   buildCipherText: vi.fn(),
+}));
+
+vi.mock('node:fs', () => {
+   return {
+      ...memfs,
+      default: memfs,
+      __esModule: true,
+   };
+});
+
+describe('plugins', () => {
+   const input = { API_KEY: 'test-api-key' };
+   const mockCipherText = 'encrypted-data-mock';
+
+   beforeEach(() => {
+      vol.reset();
+      vi.mocked(secretsFilesModule.buildCipherText).mockResolvedValue(mockCipherText);
+   });
+
+   afterEach(() => {
+      vi.clearAllMocks();
+   });
+
+   it('should require an input', () => {
+      // biome-ignore lint/suspicious/noExplicitAny: Testing missing options
+      expect(() => rollupPlugin({} as any)).toThrow("gitops-secrets: The 'input' option is required");
+   });
+
+   describe('rollupPlugin', () => {
+      it('should serve the virtual module', async () => {
+         const plugin = rollupPlugin({ input, compression: 'gzip' });
+
+         expect(plugin.resolveId('virtual:gitops-secrets')).toBe('\0virtual:gitops-secrets');
+         expect(plugin.resolveId('./other')).toBeNull();
+
+         const source = await plugin.load('\0virtual:gitops-secrets');
+         expect(source).toContain('import secrets from "@jacobwolf/gitops-secrets/no-fs";');
+         expect(source).toContain(`export const CIPHER_TEXT = "${mockCipherText}";`);
+         expect(source).toContain(
+            'export const loadSecrets = (options) => secrets.loadSecrets(CIPHER_TEXT, undefined, options);',
+         );
+         expect(source).not.toContain('test-api-key');
+         expect(secretsFilesModule.buildCipherText).toHaveBeenCalledWith(input, { compression: 'gzip' });
+      });
+
+      it('should replace the placeholder with the cipher text', async () => {
+         const plugin = rollupPlugin({ input });
+
+         const result = await plugin.transform('const c = __GITOPS_SECRETS_CIPHER_TEXT__;', '/src/app.js');
+
+         expect(result).toEqual({ code: `const c = "${mockCipherText}";`, map: null });
+         expect(await plugin.transform('const c = 1;', '/src/other.js')).toBeNull();
+      });
+
+      it('should use a custom module ID, placeholder and import specifier', async () => {
+         const plugin = rollupPlugin({
+            input,
+            moduleId: '@secrets',
+            placeholder: 'SECRETS',
+            importSpecifier: '@acme/runtime',
+         });
+
+         expect(plugin.resolveId('@secrets')).toBe('\0@secrets');
+         expect(await plugin.load('\0@secrets')).toContain('import secrets from "@acme/runtime";');
+         expect((await plugin.transform('use(SECRETS)', '/src/app.js'))?.code).toBe(`use("${mockCipherText}")`);
+      });
+
+      it('should encrypt once per build', async () => {
+         const plugin = rollupPlugin({ input });
+
+         plugin.buildStart();
+         await plugin.load('\0virtual:gitops-secrets');
+         await plugin.transform('__GITOPS_SECRETS_CIPHER_TEXT__', '/src/app.js');
+         expect(secretsFilesModule.buildCipherText).toHaveBeenCalledTimes(1);
+
+         plugin.buildStart();
+         await plugin.load('\0virtual:gitops-secrets');
+         expect(secretsFilesModule.buildCipherText).toHaveBeenCalledTimes(2);
+      });
+
+      it('should fail the build when secrets cannot be fetched', async () => {
+         vi.mocked(secretsFilesModule.buildCipherText).mockRejectedValueOnce(new Error('Doppler API Error: 401'));
+         const plugin = rollupPlugin({ input });
+
+         await expect(plugin.load('\0virtual:gitops-secrets')).rejects.toThrow(
+            'gitops-secrets: Doppler API Error: 401',
+         );
+         await expect(plugin.load('\0virtual:gitops-secrets')).resolves.toContain(mockCipherText);
+      });
+   });
+
+   describe('esbuildPlugin', () => {
+      it('should define the placeholder and serve the virtual module', async () => {
+         const onResolve = vi.fn();
+         const onLoad = vi.fn();
+         const build = { initialOptions: { define: { DEBUG: 'false' } }, onResolve, onLoad };
+
+         await esbuildPlugin({ input }).setup(build);
+
+         expect(build.initialOptions.define).toEqual({
+            DEBUG: 'false',
+            __GITOPS_SECRETS_CIPHER_TEXT__: `"${mockCipherText}"`,
+         });
+
+         const [resolveOptions, resolve] = onResolve.mock.calls[0];
+         expect(resolveOptions.filter.test('virtual:gitops-secrets')).toBe(true);
+         expect(resolveOptions.filter.test('virtual:gitops-secrets/other')).toBe(false);
+         expect(resolve({ path: 'virtual:gitops-secrets' })).toEqual({
+            path: 'virtual:gitops-secrets',
+            namespace: 'gitops-secrets',
+         });
+
+         const [loadOptions, load] = onLoad.mock.calls[0];
+         expect(loadOptions.namespace).toBe('gitops-secrets');
+         expect(await load()).toEqual({
+            contents: expect.stringContaining(`export const CIPHER_TEXT = "${mockCipherText}";`),
+            loader: 'js',
+            resolveDir: process.cwd(),
+         });
+      });
+   });
+
+   describe('webpackPlugin', () => {
+      const createCompiler = () => {
+         const hooks = { beforeRun: vi.fn(), watchRun: vi.fn() };
+         const definePlugin = vi.fn();
+         const replacementPlugin = vi.fn();
+         const DefinePlugin = Object.assign(
+            vi.fn((definitions) => {
+               definePlugin(definitions);
+               return { apply: vi.fn() };
+            }),
+            { runtimeValue: vi.fn((callback: () => string) => callback) },
+         );
+         const NormalModuleReplacementPlugin = vi.fn((pattern, replace) => {
+            replacementPlugin(pattern, replace);
+            return { apply: vi.fn() };
+         });
+
+         const compiler = {
+            context: '/project',
+            webpack: { DefinePlugin, NormalModuleReplacementPlugin },
+            hooks: {
+               beforeRun: { tapPromise: hooks.beforeRun },
+               watchRun: { tapPromise: hooks.watchRun },
+            },
+         };
+         return { compiler, hooks, definePlugin, replacementPlugin };
+      };
+
+      it('should encrypt before each compilation and point the module ID at the written module', async () => {
+         const { compiler, hooks, definePlugin, replacementPlugin } = createCompiler();
+         // biome-ignore lint/suspicious/noExplicitAny: The compiler is a partial stand-in
+         webpackPlugin({ input }).apply(compiler as any);
+
+         const [name, refresh] = hooks.beforeRun.mock.calls[0];
+         expect(name).toBe('gitops-secrets');
+         expect(hooks.watchRun).toHaveBeenCalledWith('gitops-secrets', refresh);
+         await refresh();
+
+         const modulePath = path.join('/project', 'node_modules/.cache/gitops-secrets/virtual_gitops-secrets.mjs');
+         expect(vol.readFileSync(modulePath, 'utf-8')).toContain(`export const CIPHER_TEXT = "${mockCipherText}";`);
+
+         const [definitions] = definePlugin.mock.calls[0];
+         expect(definitions.__GITOPS_SECRETS_CIPHER_TEXT__()).toBe(`"${mockCipherText}"`);
+
+         const [pattern, replace] = replacementPlugin.mock.calls[0];
+         const resource = { request: 'virtual:gitops-secrets' };
+         expect(pattern.test(resource.request)).toBe(true);
+         replace(resource);
+         expect(resource.request).toBe(modulePath);
+      });
+   });
+});
@@ -0,0 +1,102 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { fetchSecrets } from '../../src/providers/aws-secrets-manager';
+import { signRequest } from '../../src/providers/aws-sigv4';
+
+const AWS_URL = 'https://secretsmanager.us-east-1.amazonaws.com/';
+
+const server = setupServer(
+   http.post(AWS_URL, () => {
+      return HttpResponse.json({ Name: 'my-app', SecretString: JSON.stringify({ MY_SECRET: 'test-value' }) });
+   }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+
+afterEach(() => server.resetHandlers());
+
+afterAll(() => server.close());
+
+describe('AWS Secrets Manager Provider', () => {
+   const options = {
+      awsSecretId: 'my-app',
+      awsRegion: 'us-east-1',
+      awsAccessKeyId: 'AKIDEXAMPLE',
+      awsSecretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+   };
+
+   it('should fetch secrets successfully', async () => {
+      const secrets = await fetchSecrets(options);
+
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+   });
+
+   it('should send a signed GetSecretValue request', async () => {
+      let target: string | null = null;
+      let authorization: string | null = null;
+      let body: unknown = null;
+
+      server.use(
+         http.post(AWS_URL, async ({ request }) => {
+            target = request.headers.get('x-amz-target');
+            authorization = request.headers.get('authorization');
+            body = await request.json();
+            return HttpResponse.json({ SecretString: '{}' });
+         }),
+      );
+
+      await fetchSecrets({ ...options, awsVersionStage: 'AWSPREVIOUS' });
+
+      expect(target).toBe('secretsmanager.GetSecretValue');
+      expect(authorization).toMatch(
+         /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/secretsmanager\/aws4_request, SignedHeaders=content-type;host;x-amz-date;x-amz-target, Signature=[0-9a-f]{64}$/,
+      );
+      expect(body).toEqual({ SecretId: 'my-app', VersionStage: 'AWSPREVIOUS' });
+   });
+
+   it('should throw when the secret is not a JSON object', async () => {
+      server.use(
+         http.post(AWS_URL, () => {
+            return HttpResponse.json({ SecretString: 'plain-text' });
+         }),
+      );
+
+      await expect(fetchSecrets(options)).rejects.toThrow('is not a JSON object of key/value pairs');
+   });
+
+   it('should surface AWS error messages', async () => {
+      server.use(
+         http.post(AWS_URL, () => {
+            return HttpResponse.json(
+               {
+                  __type: 'ResourceNotFoundException',
+                  message: "Secrets Manager can't find the specified secret.",
+               },
+               { status: 400 },
+            );
+         }),
+      );
+
+      await expect(fetchSecrets(options)).rejects.toThrow(
+         "AWS Secrets Manager API Error: Secrets Manager can't find the specified secret.",
+      );
+   });
+
+   it('should match the AWS Signature Version 4 test suite', async () => {
+      const headers = await signRequest({
+         method: 'GET',
+         url: 'https://example.amazonaws.com/',
+         headers: {},
+         body: '',
+         region: 'us-east-1',
+         service: 'service',
+         credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+         date: new Date('2015-08-30T12:36:00Z'),
+      });
+
+      expect(headers.Authorization).toBe(
+         'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+      );
+   });
+});
@@ -1,8 +1,10 @@
 import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
-import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
 import { fetchSecrets } from '../../src/providers/doppler';
 
+const DOWNLOAD_URL = 'https://api.doppler.com/v3/configs/config/secrets/download';
+
 const server = setupServer(
    http.get('https://api.doppler.com/v3/configs/config/secrets/download', () => {
       return HttpResponse.json({ MY_SECRET: 'test-value' });
@@ -11,7 +13,11 @@ const server = setupServer(
 
 beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
 
-afterEach(() => server.resetHandlers());
+afterEach(() => {
+   server.resetHandlers();
+   vi.clearAllMocks();
+   vi.restoreAllMocks();
+});
 
 afterAll(() => server.close());
 
@@ -77,7 +83,7 @@ describe('Doppler Provider', () => {
          fetchSecrets({
             dopplerToken: 'invalid-token',
          }),
-      ).rejects.toThrow('Doppler API Error: Doppler API Error: 401 Unauthorized');
+      ).rejects.toThrow('Doppler API Error: Invalid authentication credentials');
    });
 
    it('should handle API errors without messages', async () => {
@@ -93,8 +99,9 @@ describe('Doppler Provider', () => {
       await expect(
          fetchSecrets({
             dopplerToken: 'test-token',
+            dopplerRetries: 0,
          }),
-      ).rejects.toThrow('Doppler API Error: Doppler API Error: 500 Internal Server Error');
+      ).rejects.toThrow('Doppler API Error: 500 Internal Server Error');
    });
 
    it('should send correct authorization header', async () => {
@@ -113,4 +120,183 @@ describe('Doppler Provider', () => {
 
       expect(authHeader).toBe('Bearer test-token-123');
    });
+
+   it('should send the name transformer, dynamic secrets and secret names', async () => {
+      let params: URLSearchParams | null = null;
+
+      server.use(
+         http.get(DOWNLOAD_URL, ({ request }) => {
+            params = new URL(request.url).searchParams;
+            return HttpResponse.json({ apiKey: 'test-value' });
+         }),
+      );
+
+      await fetchSecrets({
+         dopplerToken: 'test-token',
+         dopplerNameTransformer: 'camel',
+         dopplerIncludeDynamicSecrets: true,
+         dopplerDynamicSecretsTtl: 1800,
+         dopplerSecrets: ['API_KEY', 'DATABASE_URL'],
+      });
+
+      expect(params?.get('name_transformer')).toBe('camel');
+      expect(params?.get('include_dynamic_secrets')).toBe('true');
+      expect(params?.get('dynamic_secrets_ttl_sec')).toBe('1800');
+      expect(params?.get('secrets')).toBe('API_KEY,DATABASE_URL');
+   });
+
+   it('should reject unsupported name transformers', async () => {
+      await expect(
+         fetchSecrets({
+            dopplerToken: 'test-token',
+            // @ts-expect-error Testing an unsupported value
+            dopplerNameTransformer: 'upper-snake',
+         }),
+      ).rejects.toThrow('Doppler API Error: Unsupported name transformer: upper-snake');
+   });
+
+   it('should use a custom base URL', async () => {
+      server.use(
+         http.get('http://localhost:8080/v3/configs/config/secrets/download', () => {
+            return HttpResponse.json({ LOCAL_SECRET: 'local-value' });
+         }),
+      );
+
+      const secrets = await fetchSecrets({
+         dopplerToken: 'test-token',
+         dopplerBaseUrl: 'http://localhost:8080',
+      });
+
+      expect(secrets).toEqual({ LOCAL_SECRET: 'local-value' });
+   });
+
+   it('should retry rate limited and failing requests', async () => {
+      let attempts = 0;
+
+      server.use(
+         http.get(DOWNLOAD_URL, () => {
+            attempts++;
+            if (attempts === 1) {
+               return HttpResponse.json(
+                  { messages: ['Rate limited'] },
+                  { status: 429, headers: { 'Retry-After': '0' } },
+               );
+            }
+            if (attempts === 2) {
+               return HttpResponse.json({}, { status: 503 });
+            }
+            return HttpResponse.json({ MY_SECRET: 'test-value' });
+         }),
+      );
+
+      const secrets = await fetchSecrets({ dopplerToken: 'test-token', dopplerRetryDelay: 1 });
+
+      expect(attempts).toBe(3);
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+   });
+
+   it('should give up after the configured retries', async () => {
+      let attempts = 0;
+
+      server.use(
+         http.get(DOWNLOAD_URL, () => {
+            attempts++;
+            return HttpResponse.json({ messages: ['Service unavailable'] }, { status: 503 });
+         }),
+      );
+
+      await expect(
+         fetchSecrets({ dopplerToken: 'test-token', dopplerRetries: 2, dopplerRetryDelay: 1 }),
+      ).rejects.toThrow('Doppler API Error: Service unavailable');
+      expect(attempts).toBe(3);
+   });
+
+   it('should not retry rejected requests', async () => {
+      let attempts = 0;
+
+      server.use(
+         http.get(DOWNLOAD_URL, () => {
+            attempts++;
+            return HttpResponse.json({ messages: ['Invalid authentication credentials'] }, { status: 401 });
+         }),
+      );
+
+      await expect(fetchSecrets({ dopplerToken: 'invalid-token', dopplerRetryDelay: 1 })).rejects.toThrow(
+         'Doppler API Error: Invalid authentication credentials',
+      );
+      expect(attempts).toBe(1);
+   });
+
+   it('should time out slow requests', async () => {
+      server.use(
+         http.get(DOWNLOAD_URL, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            return HttpResponse.json({ MY_SECRET: 'test-value' });
+         }),
+      );
+
+      await expect(fetchSecrets({ dopplerToken: 'test-token', dopplerTimeout: 20, dopplerRetries: 0 })).rejects.toThrow(
+         'Doppler API Error: Request timed out after 20ms',
+      );
+   });
+
+   describe('fallback cache', () => {
+      const fallback = { read: vi.fn(), write: vi.fn() };
+
+      it('should write the fetched secrets to the cache', async () => {
+         await fetchSecrets({ dopplerToken: 'test-token', dopplerFallback: fallback });
+
+         expect(fallback.write).toHaveBeenCalledWith({ MY_SECRET: 'test-value' });
+      });
+
+      it('should not fail the fetch when the cache cannot be written', async () => {
+         const onFallback = vi.fn();
+         fallback.write.mockRejectedValueOnce(new Error('EACCES'));
+
+         const secrets = await fetchSecrets({
+            dopplerToken: 'test-token',
+            dopplerFallback: fallback,
+            dopplerOnFallback: onFallback,
+         });
+
+         expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+         expect(onFallback).toHaveBeenCalledWith({ type: 'write', error: new Error('EACCES') });
+      });
+
+      it('should read the cache when Doppler is unreachable', async () => {
+         const onFallback = vi.fn();
+         fallback.read.mockResolvedValueOnce({ MY_SECRET: 'cached-value' });
+         server.use(http.get(DOWNLOAD_URL, () => HttpResponse.error()));
+
+         const secrets = await fetchSecrets({
+            dopplerToken: 'test-token',
+            dopplerRetries: 0,
+            dopplerFallback: fallback,
+            dopplerOnFallback: onFallback,
+         });
+
+         expect(secrets).toEqual({ MY_SECRET: 'cached-value' });
+         expect(onFallback).toHaveBeenCalledWith({ type: 'read', error: expect.any(Error) });
+      });
+
+      it('should report both errors when the cache cannot be read', async () => {
+         fallback.read.mockRejectedValueOnce(new Error('ENOENT'));
+         server.use(http.get(DOWNLOAD_URL, () => HttpResponse.json({}, { status: 502 })));
+
+         await expect(
+            fetchSecrets({ dopplerToken: 'test-token', dopplerRetries: 0, dopplerFallback: fallback }),
+         ).rejects.toThrow('Doppler API Error: 502 Bad Gateway. The fallback cache could not be read: ENOENT');
+      });
+
+      it('should not use the cache when Doppler rejects the request', async () => {
+         server.use(
+            http.get(DOWNLOAD_URL, () => HttpResponse.json({ messages: ['Invalid Service token'] }, { status: 403 })),
+         );
+
+         await expect(fetchSecrets({ dopplerToken: 'test-token', dopplerFallback: fallback })).rejects.toThrow(
+            'Doppler API Error: Invalid Service token',
+         );
+         expect(fallback.read).not.toHaveBeenCalled();
+      });
+   });
 });
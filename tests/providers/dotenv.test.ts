@@ -0,0 +1,70 @@
+import { fs as memfs, vol } from 'memfs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchSecrets, parse } from '../../src/providers/dotenv';
+
+vi.mock('node:fs', () => {
+   return {
+      ...memfs,
+      default: memfs,
+      __esModule: true,
+   };
+});
+
+describe('Dotenv Provider', () => {
+   beforeEach(() => {
+      vol.reset();
+   });
+
+   it('should parse plain, quoted and exported values', () => {
+      const secrets = parse(
+         [
+            '# comment',
+            'PLAIN=value',
+            'export EXPORTED=exported-value',
+            'SPACED = spaced value   ',
+            'INLINE_COMMENT=value # comment',
+            'HASH=value#not-a-comment',
+            `SINGLE='literal \\n $value'`,
+            'DOUBLE="line\\nbreak \\"quoted\\""',
+            'EMPTY=',
+         ].join('\n'),
+      );
+
+      expect(secrets).toEqual({
+         PLAIN: 'value',
+         EXPORTED: 'exported-value',
+         SPACED: 'spaced value',
+         INLINE_COMMENT: 'value',
+         HASH: 'value#not-a-comment',
+         SINGLE: 'literal \\n $value',
+         DOUBLE: 'line\nbreak "quoted"',
+         EMPTY: '',
+      });
+   });
+
+   it('should parse multiline quoted values', () => {
+      const secrets = parse('PRIVATE_KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nAFTER=after\r\n');
+
+      expect(secrets).toEqual({
+         PRIVATE_KEY: '-----BEGIN KEY-----\nabc\n-----END KEY-----',
+         AFTER: 'after',
+      });
+   });
+
+   it('should report the line of invalid entries', () => {
+      expect(() => parse('A=1\n\nNOT VALID')).toThrow('Expected KEY=VALUE on line 3');
+      expect(() => parse('A="unterminated')).toThrow("Unterminated \" quote for 'A' on line 1");
+   });
+
+   it('should read secrets from a file', async () => {
+      vol.fromJSON({ '/app/.env.local': 'API_KEY=test-api-key\n' });
+
+      expect(await fetchSecrets({ dotenvPath: '/app/.env.local' })).toEqual({ API_KEY: 'test-api-key' });
+   });
+
+   it('should throw when the file is missing', async () => {
+      await expect(fetchSecrets({ dotenvPath: '/missing/.env' })).rejects.toThrow(
+         'Dotenv Provider Error: Failed to read /missing/.env',
+      );
+   });
+});
@@ -0,0 +1,59 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { fetchSecrets } from '../../src/providers/infisical';
+
+const INFISICAL_URL = 'https://app.infisical.com/api/v3/secrets/raw';
+
+const server = setupServer(
+   http.get(INFISICAL_URL, () => {
+      return HttpResponse.json({ secrets: [{ secretKey: 'MY_SECRET', secretValue: 'test-value' }] });
+   }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+
+afterEach(() => server.resetHandlers());
+
+afterAll(() => server.close());
+
+describe('Infisical Provider', () => {
+   const options = {
+      infisicalToken: 'test-token',
+      infisicalProjectId: 'project-id',
+      infisicalEnvironment: 'prod',
+   };
+
+   it('should fetch secrets successfully', async () => {
+      const secrets = await fetchSecrets(options);
+
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+   });
+
+   it('should include project, environment and path', async () => {
+      let params: URLSearchParams | null = null;
+
+      server.use(
+         http.get(INFISICAL_URL, ({ request }) => {
+            params = new URL(request.url).searchParams;
+            return HttpResponse.json({ secrets: [] });
+         }),
+      );
+
+      await fetchSecrets({ ...options, infisicalSecretPath: '/backend' });
+
+      expect(params?.get('workspaceId')).toBe('project-id');
+      expect(params?.get('environment')).toBe('prod');
+      expect(params?.get('secretPath')).toBe('/backend');
+   });
+
+   it('should surface Infisical error messages', async () => {
+      server.use(
+         http.get(INFISICAL_URL, () => {
+            return HttpResponse.json({ message: 'Token expired' }, { status: 401 });
+         }),
+      );
+
+      await expect(fetchSecrets(options)).rejects.toThrow('Infisical API Error: Token expired');
+   });
+});
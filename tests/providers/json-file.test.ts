@@ -0,0 +1,35 @@
+import { fs as memfs, vol } from 'memfs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchSecrets } from '../../src/providers/json-file';
+
+vi.mock('node:fs', () => {
+   return {
+      ...memfs,
+      default: memfs,
+      __esModule: true,
+   };
+});
+
+describe('JSON Provider', () => {
+   beforeEach(() => {
+      vol.reset();
+   });
+
+   it('should read secrets from a file as strings', async () => {
+      vol.fromJSON({ '/app/secrets.json': JSON.stringify({ API_KEY: 'key', PORT: 5432, OPTIONAL: null }) });
+
+      expect(await fetchSecrets({ jsonPath: '/app/secrets.json' })).toEqual({
+         API_KEY: 'key',
+         PORT: '5432',
+         OPTIONAL: '',
+      });
+   });
+
+   it('should throw for invalid JSON', async () => {
+      vol.fromJSON({ '/app/secrets.json': '{ invalid' });
+
+      await expect(fetchSecrets({ jsonPath: '/app/secrets.json' })).rejects.toThrow(
+         'JSON Provider Error: Failed to parse /app/secrets.json',
+      );
+   });
+});
@@ -0,0 +1,65 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { fetchSecrets } from '../../src/providers/one-password';
+
+const ITEM_URL = 'http://localhost:8080/v1/vaults/vault-id/items/item-id';
+
+const server = setupServer(
+   http.get(ITEM_URL, () => {
+      return HttpResponse.json({
+         id: 'item-id',
+         fields: [
+            { id: 'a', label: 'MY_SECRET', value: 'test-value' },
+            { id: 'b', label: 'EMPTY' },
+            { id: 'c', value: 'no-label' },
+         ],
+      });
+   }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+
+afterEach(() => server.resetHandlers());
+
+afterAll(() => server.close());
+
+describe('1Password Connect Provider', () => {
+   const options = {
+      onePasswordHost: 'http://localhost:8080',
+      onePasswordToken: 'test-token',
+      onePasswordVault: 'vault-id',
+      onePasswordItem: 'item-id',
+   };
+
+   it('should map labelled fields to secrets', async () => {
+      const secrets = await fetchSecrets(options);
+
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+   });
+
+   it('should send correct authorization header', async () => {
+      let authHeader: string | null = null;
+
+      server.use(
+         http.get(ITEM_URL, ({ request }) => {
+            authHeader = request.headers.get('authorization');
+            return HttpResponse.json({ fields: [] });
+         }),
+      );
+
+      await fetchSecrets(options);
+
+      expect(authHeader).toBe('Bearer test-token');
+   });
+
+   it('should surface Connect error messages', async () => {
+      server.use(
+         http.get(ITEM_URL, () => {
+            return HttpResponse.json({ status: 401, message: 'Invalid token signature' }, { status: 401 });
+         }),
+      );
+
+      await expect(fetchSecrets(options)).rejects.toThrow('1Password Connect API Error: Invalid token signature');
+   });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+   fetchFromProviders,
+   fromProvider,
+   isProviderSpec,
+   registerProvider,
+   resolvePayload,
+} from '../../src/providers/registry';
+import type { SecretProvider } from '../../src/types';
+
+const staticProvider = (name: string, secrets: Record<string, string>): SecretProvider => ({
+   name,
+   fetchSecrets: vi.fn().mockResolvedValue(secrets),
+});
+
+describe('Provider registry', () => {
+   it('should fetch from a registered provider by name', async () => {
+      const provider = staticProvider('in-house', { MY_SECRET: 'test-value' });
+      registerProvider(provider);
+
+      const secrets = await fetchFromProviders([{ provider: 'in-house', options: { team: 'platform' } }]);
+
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+      expect(provider.fetchSecrets).toHaveBeenCalledWith({ team: 'platform' });
+   });
+
+   it('should let later providers override earlier ones', async () => {
+      const secrets = await fetchFromProviders([
+         { provider: staticProvider('base', { SHARED: 'base', BASE_ONLY: 'base' }) },
+         { provider: staticProvider('override', { SHARED: 'override' }) },
+      ]);
+
+      expect(secrets).toEqual({ SHARED: 'override', BASE_ONLY: 'base' });
+   });
+
+   it('should run validate before fetching', async () => {
+      const provider: SecretProvider = {
+         name: 'strict',
+         fetchSecrets: vi.fn(),
+         validate: () => {
+            throw new Error('token is required');
+         },
+      };
+
+      await expect(fetchFromProviders([{ provider }])).rejects.toThrow("Provider 'strict' failed: token is required");
+      expect(provider.fetchSecrets).not.toHaveBeenCalled();
+   });
+
+   it('should throw for unknown provider names', async () => {
+      await expect(fetchFromProviders([{ provider: 'missing' }])).rejects.toThrow("Unknown provider 'missing'");
+   });
+
+   it('should reject providers without fetchSecrets', () => {
+      expect(() => registerProvider({ name: 'broken' } as SecretProvider)).toThrow(
+         'Providers must have a name and a fetchSecrets function',
+      );
+   });
+
+   it('should only treat specs created by fromProvider as provider specs', () => {
+      expect(isProviderSpec(fromProvider('doppler', {}))).toBe(true);
+      expect(isProviderSpec(fromProvider(staticProvider('inline', {})))).toBe(true);
+      expect(isProviderSpec({ provider: 'doppler', options: {} })).toBe(false);
+      expect(isProviderSpec({ API_KEY: 'value' })).toBe(false);
+   });
+
+   it('should return payloads unchanged from resolvePayload', async () => {
+      const payload = { API_KEY: 'value' };
+
+      expect(await resolvePayload(payload)).toBe(payload);
+   });
+
+   it('should encrypt payloads with a provider key rather than fetching them', async () => {
+      const payload = { provider: 'vault', options: { region: 'eu' } };
+
+      expect(await resolvePayload(payload)).toBe(payload);
+   });
+
+   it('should fetch from specs created by fromProvider', async () => {
+      const provider = staticProvider('marked', { MY_SECRET: 'test-value' });
+
+      expect(await resolvePayload(fromProvider(provider, { team: 'platform' }))).toEqual({ MY_SECRET: 'test-value' });
+      expect(await resolvePayload([fromProvider(provider)])).toEqual({ MY_SECRET: 'test-value' });
+      expect(provider.fetchSecrets).toHaveBeenCalledWith({ team: 'platform' });
+   });
+
+   it('should reject arrays of unmarked specs', async () => {
+      await expect(resolvePayload([{ provider: 'doppler' }])).rejects.toThrow(
+         'Provider specs must be created with fromProvider()',
+      );
+   });
+});
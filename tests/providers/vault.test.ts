@@ -0,0 +1,69 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { fetchSecrets } from '../../src/providers/vault';
+
+const VAULT_URL = 'https://vault.example.com/v1/secret/data/my-app/production';
+
+const server = setupServer(
+   http.get(VAULT_URL, () => {
+      return HttpResponse.json({ data: { data: { MY_SECRET: 'test-value' }, metadata: { version: 3 } } });
+   }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+
+afterEach(() => server.resetHandlers());
+
+afterAll(() => server.close());
+
+describe('Vault Provider', () => {
+   const options = {
+      vaultAddress: 'https://vault.example.com',
+      vaultToken: 'test-token',
+      vaultPath: 'my-app/production',
+   };
+
+   it('should fetch secrets successfully', async () => {
+      const secrets = await fetchSecrets(options);
+
+      expect(secrets).toEqual({ MY_SECRET: 'test-value' });
+   });
+
+   it('should send the token, namespace and version', async () => {
+      let tokenHeader: string | null = null;
+      let namespaceHeader: string | null = null;
+      let versionParam: string | null = null;
+
+      server.use(
+         http.get('https://vault.example.com/v1/kv/data/my-app/production', ({ request }) => {
+            tokenHeader = request.headers.get('x-vault-token');
+            namespaceHeader = request.headers.get('x-vault-namespace');
+            versionParam = new URL(request.url).searchParams.get('version');
+            return HttpResponse.json({ data: { data: { MY_SECRET: 'old-value' } } });
+         }),
+      );
+
+      await fetchSecrets({ ...options, vaultMount: 'kv', vaultNamespace: 'team-a', vaultVersion: 2 });
+
+      expect(tokenHeader).toBe('test-token');
+      expect(namespaceHeader).toBe('team-a');
+      expect(versionParam).toBe('2');
+   });
+
+   it('should throw error when no token is provided', async () => {
+      await expect(fetchSecrets({ ...options, vaultToken: undefined })).rejects.toThrow(
+         "Vault API Error: The 'VAULT_TOKEN' environment variable is required",
+      );
+   });
+
+   it('should surface Vault error messages', async () => {
+      server.use(
+         http.get(VAULT_URL, () => {
+            return HttpResponse.json({ errors: ['permission denied'] }, { status: 403 });
+         }),
+      );
+
+      await expect(fetchSecrets(options)).rejects.toThrow('Vault API Error: permission denied');
+   });
+});
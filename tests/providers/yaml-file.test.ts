@@ -0,0 +1,115 @@
+import { fs as memfs, vol } from 'memfs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchSecrets, parse } from '../../src/providers/yaml-file';
+
+vi.mock('node:fs', () => {
+   return {
+      ...memfs,
+      default: memfs,
+      __esModule: true,
+   };
+});
+
+describe('YAML Provider', () => {
+   beforeEach(() => {
+      vol.reset();
+   });
+
+   it('should parse scalars, comments and quoting', () => {
+      const document = parse(
+         [
+            '# secrets',
+            'API_KEY: test-api-key # trailing comment',
+            'URL: https://example.com/path#fragment',
+            'PORT: 5432',
+            'PIN: 0123',
+            'DEBUG: false',
+            'EMPTY:',
+            'DOUBLE: "tab\\tseparated"',
+            "SINGLE: 'it''s'",
+            '"QUOTED KEY": value',
+         ].join('\n'),
+      );
+
+      expect(document).toEqual({
+         API_KEY: 'test-api-key',
+         URL: 'https://example.com/path#fragment',
+         PORT: 5432,
+         PIN: '0123',
+         DEBUG: false,
+         EMPTY: null,
+         DOUBLE: 'tab\tseparated',
+         SINGLE: "it's",
+         'QUOTED KEY': 'value',
+      });
+   });
+
+   it('should parse nested mappings, sequences and flow collections', () => {
+      const document = parse(
+         [
+            'database:',
+            '  host: localhost',
+            '  replicas:',
+            '    - replica-1',
+            '    - replica-2',
+            'users:',
+            '- name: admin',
+            '  role: owner',
+            'flags: [a, "b", 3]',
+            'limits: { cpu: 2, memory: 512Mi }',
+         ].join('\n'),
+      );
+
+      expect(document).toEqual({
+         database: { host: 'localhost', replicas: ['replica-1', 'replica-2'] },
+         users: [{ name: 'admin', role: 'owner' }],
+         flags: ['a', 'b', 3],
+         limits: { cpu: 2, memory: '512Mi' },
+      });
+   });
+
+   it('should parse literal and folded block scalars', () => {
+      const document = parse(
+         [
+            'CERT: |',
+            '  -----BEGIN CERTIFICATE-----',
+            '  abc',
+            '  -----END CERTIFICATE-----',
+            'FOLDED: >-',
+            '  one',
+            '  two',
+            '',
+            '  three',
+            'AFTER: after',
+         ].join('\n'),
+      );
+
+      expect(document).toEqual({
+         CERT: '-----BEGIN CERTIFICATE-----\nabc\n-----END CERTIFICATE-----\n',
+         FOLDED: 'one two\nthree',
+         AFTER: 'after',
+      });
+   });
+
+   it('should report unexpected indentation', () => {
+      expect(() => parse('A: 1\n   B: 2')).toThrow('YAML Provider Error: Unexpected indentation on line 2');
+   });
+
+   it('should read secrets from a file as strings', async () => {
+      vol.fromJSON({ '/app/secrets.yaml': 'API_KEY: test-api-key\nPORT: 5432\nDATABASE:\n  HOST: localhost\n' });
+
+      expect(await fetchSecrets({ yamlPath: '/app/secrets.yaml' })).toEqual({
+         API_KEY: 'test-api-key',
+         PORT: '5432',
+         DATABASE: '{"HOST":"localhost"}',
+      });
+   });
+
+   it('should reject documents that are not mappings', async () => {
+      vol.fromJSON({ '/app/secrets.yaml': '- a\n- b\n' });
+
+      await expect(fetchSecrets({ yamlPath: '/app/secrets.yaml' })).rejects.toThrow(
+         'YAML Provider Error: The file must contain an object of key/value pairs',
+      );
+   });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateRecipientKeyPair, recipientsFromEnv, unwrapDataKey, wrapDataKey } from '../src/recipients';
+import { clearCache, configureCache, decrypt, encrypt, inspect, reencrypt } from '../src/secrets';
+import type { RecipientAlgorithm } from '../src/types';
+
+const readHeader = (cipherText: string) => JSON.parse(atob(cipherText.split(':')[1]));
+
+describe('recipients', () => {
+   afterEach(() => {
+      vi.unstubAllEnvs();
+      configureCache({ enabled: false });
+   });
+
+   describe.each<RecipientAlgorithm>(['X25519', 'ECDH-P256', 'RSA-OAEP-256'])('%s', (algorithm) => {
+      let first: { publicKey: string; privateKey: string };
+      let second: { publicKey: string; privateKey: string };
+
+      beforeEach(async () => {
+         first = await generateRecipientKeyPair(algorithm);
+         second = await generateRecipientKeyPair(algorithm);
+      });
+
+      it('should wrap the data key so each recipient can unwrap it', async () => {
+         const { dataKey, recipients } = await wrapDataKey([first.publicKey, second.publicKey]);
+         const exported = new Uint8Array(await crypto.subtle.exportKey('raw', dataKey));
+
+         expect(recipients).toHaveLength(2);
+         expect(recipients[0]).toMatchObject({ algorithm, keyId: expect.stringMatching(/^[0-9a-f]{16}$/) });
+         expect(recipients[0].keyId).not.toBe(recipients[1].keyId);
+
+         for (const privateKey of [first.privateKey, second.privateKey]) {
+            const unwrapped = await unwrapDataKey(recipients, privateKey);
+            const iv = new Uint8Array(12);
+            const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, exported);
+            expect(new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, unwrapped, encrypted))).toEqual(
+               exported,
+            );
+         }
+      });
+
+      it('should round trip a payload without a master key', async () => {
+         const cipherText = await encrypt('{"API_KEY":"value"}', { recipients: [first.publicKey, second.publicKey] });
+
+         expect(readHeader(cipherText)).toMatchObject({ kdf: 'recipients', cipher: 'AES-GCM' });
+         expect(readHeader(cipherText)).not.toHaveProperty('keyFingerprint');
+         expect(await decrypt(cipherText, { privateKey: second.privateKey })).toBe('{"API_KEY":"value"}');
+      });
+
+      it('should import private keys as non-extractable', async () => {
+         const { recipients } = await wrapDataKey([first.publicKey]);
+         const importKey = vi.spyOn(crypto.subtle, 'importKey');
+
+         await unwrapDataKey(recipients, first.privateKey);
+
+         const privateImports = importKey.mock.calls.filter(([format]) => format === 'pkcs8');
+         expect(privateImports.length).toBeGreaterThan(0);
+         expect(privateImports.every(([, , , extractable]) => extractable === false)).toBe(true);
+         importKey.mockRestore();
+      });
+
+      it('should reject a private key that is not a recipient', async () => {
+         const cipherText = await encrypt('{}', { recipients: [first.publicKey] });
+
+         await expect(decrypt(cipherText, { privateKey: second.privateKey })).rejects.toThrow(
+            'Decryption failed: The private key does not match any recipient of this cipher text',
+         );
+      });
+   });
+
+   it('should mix recipients of different algorithms', async () => {
+      const rsa = await generateRecipientKeyPair('RSA-OAEP-256');
+      const x25519 = await generateRecipientKeyPair('X25519');
+      const cipherText = await encrypt('{"A":1}', { recipients: [rsa.publicKey, x25519.publicKey] });
+
+      expect(inspect(cipherText).recipients).toEqual([
+         { algorithm: 'RSA-OAEP-256', keyId: expect.any(String) },
+         { algorithm: 'X25519', keyId: expect.any(String) },
+      ]);
+      expect(await decrypt(cipherText, { privateKey: rsa.privateKey })).toBe('{"A":1}');
+      clearCache();
+      expect(await decrypt(cipherText, { privateKey: x25519.privateKey })).toBe('{"A":1}');
+   });
+
+   it('should accept JWKs and imported keys', async () => {
+      const pair = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, [
+         'deriveBits',
+      ])) as CryptoKeyPair;
+      const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+      const cipherText = await encrypt('{"A":1}', { recipients: [JSON.stringify(publicJwk)] });
+
+      expect(await decrypt(cipherText, { privateKey: pair.privateKey })).toBe('{"A":1}');
+      clearCache();
+      expect(await decrypt(cipherText, { privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey) })).toBe(
+         '{"A":1}',
+      );
+   });
+
+   it('should reject a private key passed as a recipient', async () => {
+      const pair = await generateRecipientKeyPair();
+
+      await expect(encrypt('{}', { recipients: [pair.privateKey] })).rejects.toThrow(
+         'Could not import the public recipient key',
+      );
+   });
+
+   it('should authenticate the recipients in the header', async () => {
+      const pair = await generateRecipientKeyPair();
+      const cipherText = await encrypt('{}', { recipients: [pair.publicKey] });
+      const [prefix, , data] = cipherText.split(':');
+      const header = readHeader(cipherText);
+      header.recipients.push({ ...header.recipients[0], keyId: '0000000000000000' });
+
+      await expect(
+         decrypt(`${prefix}:${btoa(JSON.stringify(header))}:${data}`, { privateKey: pair.privateKey }),
+      ).rejects.toThrow('Decryption failed');
+   });
+
+   it('should reject envelopes without valid recipients', async () => {
+      const header = (recipients: unknown) =>
+         btoa(JSON.stringify({ version: 2, kdf: 'recipients', cipher: 'AES-GCM', iv: 'AAAAAAAAAAAAAAAA', recipients }));
+
+      await expect(decrypt(`gs2:${header([])}:FRUWEQ==`)).rejects.toThrow('Envelope has no recipients');
+      await expect(decrypt(`gs2:${header([{ algorithm: 'RSA1_5' }])}:FRUWEQ==`)).rejects.toThrow(
+         'Unsupported recipient algorithm: RSA1_5',
+      );
+   });
+
+   it('should read recipients and the private key from the environment', async () => {
+      const first = await generateRecipientKeyPair();
+      const second = await generateRecipientKeyPair('ECDH-P256');
+      vi.stubEnv('GITOPS_SECRETS_RECIPIENTS', `${first.publicKey.replace(/\n/g, '\\n')},${second.publicKey}`);
+      vi.stubEnv('GITOPS_SECRETS_PRIVATE_KEY', second.privateKey);
+
+      expect(recipientsFromEnv()).toHaveLength(2);
+
+      const cipherText = await encrypt('{"A":1}');
+      expect(inspect(cipherText).recipients).toHaveLength(2);
+      expect(await decrypt(cipherText)).toBe('{"A":1}');
+   });
+
+   it('should not return cached payloads for another private key', async () => {
+      configureCache({ enabled: true, payloads: true });
+      const [pair, other] = await Promise.all([generateRecipientKeyPair(), generateRecipientKeyPair()]);
+      const cipherText = await encrypt('{}', { recipients: [pair.publicKey] });
+
+      expect(await decrypt(cipherText, { privateKey: pair.privateKey })).toBe('{}');
+      await expect(decrypt(cipherText, { privateKey: other.privateKey })).rejects.toThrow(
+         'Decryption failed: The private key does not match any recipient of this cipher text',
+      );
+      await expect(decrypt(cipherText)).rejects.toThrow('Cipher text is encrypted for recipients');
+   });
+
+   it('should ask for a private key when none is configured', async () => {
+      const pair = await generateRecipientKeyPair();
+      const cipherText = await encrypt('{}', { recipients: [pair.publicKey] });
+
+      await expect(decrypt(cipherText)).rejects.toThrow(
+         "Cipher text is encrypted for recipients. Pass {privateKey} or set the 'GITOPS_SECRETS_PRIVATE_KEY' environment variable",
+      );
+   });
+
+   it('should re-encrypt for new recipients, keeping compression', async () => {
+      const current = await generateRecipientKeyPair();
+      const next = await generateRecipientKeyPair();
+      const cipherText = await encrypt('{"A":1}', { recipients: [current.publicKey], compression: 'gzip' });
+
+      const rotated = await reencrypt(cipherText, { privateKey: current.privateKey, recipients: [next.publicKey] });
+
+      expect(readHeader(rotated)).toMatchObject({ kdf: 'recipients', compression: 'gzip' });
+      expect(await decrypt(rotated, { privateKey: next.privateKey })).toBe('{"A":1}');
+      await expect(decrypt(rotated, { privateKey: current.privateKey })).rejects.toThrow('does not match');
+   });
+
+   it('should reject unsupported key pair algorithms', async () => {
+      await expect(generateRecipientKeyPair('DSA' as RecipientAlgorithm)).rejects.toThrow(
+         'Unsupported recipient algorithm: DSA. Expected one of RSA-OAEP-256, ECDH-P256, X25519',
+      );
+   });
+});
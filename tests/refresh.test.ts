@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fromProvider } from '../src/providers/registry';
+import { createRefreshingStore, watchSecrets } from '../src/refresh';
+import { clearCache, encrypt, generateMasterKey } from '../src/secrets';
+import type { SecretsDiff } from '../src/types';
+
+describe('refresh', () => {
+   const fetchSecrets = vi.fn();
+   const input = fromProvider({ name: 'test', fetchSecrets });
+
+   beforeEach(() => {
+      vi.useFakeTimers();
+      fetchSecrets.mockResolvedValue({ API_KEY: 'first', PORT: '8080' });
+   });
+
+   afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+      fetchSecrets.mockReset();
+      clearCache();
+   });
+
+   describe('createRefreshingStore', () => {
+      it('should load secrets from the provider', async () => {
+         const store = await createRefreshingStore({ input });
+
+         expect(store.source).toBe('provider');
+         expect(store.require('API_KEY')).toBe('first');
+         expect(store.toObject()).toEqual({ API_KEY: 'first', PORT: '8080' });
+         store.close();
+      });
+
+      it('should fetch again after the TTL and report changed key names', async () => {
+         const store = await createRefreshingStore({ input, ttl: 1000 });
+         const changes: SecretsDiff[] = [];
+         store.on('change', (diff) => changes.push(diff));
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second', PORT: '8080', DATABASE_URL: 'postgres://db' });
+
+         await vi.advanceTimersByTimeAsync(1000);
+
+         expect(fetchSecrets).toHaveBeenCalledTimes(2);
+         expect(store.get('API_KEY')).toBe('second');
+         expect(changes).toEqual([{ added: ['DATABASE_URL'], removed: [], changed: ['API_KEY'], unchanged: ['PORT'] }]);
+         expect(JSON.stringify(changes)).not.toContain('second');
+         store.close();
+      });
+
+      it('should not emit a change when nothing changed', async () => {
+         const store = await createRefreshingStore({ input, ttl: 1000 });
+         const listener = vi.fn();
+         store.on('change', listener);
+
+         await vi.advanceTimersByTimeAsync(3000);
+
+         expect(fetchSecrets).toHaveBeenCalledTimes(4);
+         expect(listener).not.toHaveBeenCalled();
+         store.close();
+      });
+
+      it('should keep the current values and report the error when a refresh fails', async () => {
+         const store = await createRefreshingStore({ input, ttl: 1000 });
+         const errors: Error[] = [];
+         store.on('error', (error) => errors.push(error));
+         fetchSecrets.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+         await vi.advanceTimersByTimeAsync(1000);
+
+         expect(store.get('API_KEY')).toBe('first');
+         expect(errors[0].message).toBe("Provider 'test' failed: 503 Service Unavailable");
+
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second' });
+         await vi.advanceTimersByTimeAsync(1000);
+         expect(store.get('API_KEY')).toBe('second');
+         store.close();
+      });
+
+      it('should report a throwing change listener without failing the refresh or skipping other listeners', async () => {
+         const store = await createRefreshingStore({ input, ttl: 0 });
+         const errors: Error[] = [];
+         const listener = vi.fn();
+         store.on('change', () => {
+            throw new Error('listener failed');
+         });
+         store.on('change', listener);
+         store.on('error', (error) => errors.push(error));
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second', PORT: '8080' });
+
+         await expect(store.refresh()).resolves.toEqual(expect.objectContaining({ changed: ['API_KEY'] }));
+
+         expect(store.get('API_KEY')).toBe('second');
+         expect(listener).toHaveBeenCalledTimes(1);
+         expect(errors.map((error) => error.message)).toEqual(['listener failed']);
+      });
+
+      it('should log failed refreshes when nobody listens for errors', async () => {
+         const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+         const store = await createRefreshingStore({ input, ttl: 1000 });
+         fetchSecrets.mockRejectedValueOnce(new Error('timeout'));
+
+         await vi.advanceTimersByTimeAsync(1000);
+
+         expect(consoleError).toHaveBeenCalledWith('Failed to refresh secrets:', expect.any(Error));
+         store.close();
+      });
+
+      it('should reject an invalid payload on refresh and keep the valid one', async () => {
+         const store = await createRefreshingStore({ input, ttl: 0, schema: { API_KEY: 'string', PORT: 'number' } });
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second' });
+
+         await expect(store.refresh()).rejects.toThrow('PORT');
+         expect(store.get('PORT')).toBe(8080);
+         expect(store.get('API_KEY')).toBe('first');
+      });
+
+      it('should share a refresh that is already in flight', async () => {
+         const store = await createRefreshingStore({ input, ttl: 0 });
+
+         const [first, second] = await Promise.all([store.refresh(), store.refresh()]);
+
+         expect(first).toBe(second);
+         expect(fetchSecrets).toHaveBeenCalledTimes(2);
+      });
+
+      it('should stop refreshing when closed', async () => {
+         const store = await createRefreshingStore({ input, ttl: 1000 });
+         store.close();
+
+         await vi.advanceTimersByTimeAsync(5000);
+
+         expect(fetchSecrets).toHaveBeenCalledTimes(1);
+      });
+
+      it('should unsubscribe listeners', async () => {
+         const store = await createRefreshingStore({ input, ttl: 0 });
+         const listener = vi.fn();
+         const unsubscribe = store.on('change', listener);
+         unsubscribe();
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second' });
+
+         await store.refresh();
+
+         expect(listener).not.toHaveBeenCalled();
+      });
+
+      it('should throw when the provider fails at startup without a fallback', async () => {
+         fetchSecrets.mockRejectedValue(new Error('ENOTFOUND'));
+
+         await expect(createRefreshingStore({ input })).rejects.toThrow("Provider 'test' failed: ENOTFOUND");
+      });
+
+      it('should reject invalid TTLs', async () => {
+         await expect(createRefreshingStore({ input, ttl: -1 })).rejects.toThrow('Invalid TTL: -1');
+      });
+
+      it('should decrypt the fallback when the provider fails at startup, then switch to the provider', async () => {
+         vi.useRealTimers();
+         vi.stubEnv('GITOPS_SECRETS_KEY_MODE', 'raw');
+         vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+         const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+         const fallback = await encrypt(JSON.stringify({ API_KEY: 'bundled' }));
+         fetchSecrets.mockRejectedValueOnce(new Error('ENOTFOUND'));
+
+         const store = await createRefreshingStore({ input, fallback, ttl: 0 });
+
+         expect(store.source).toBe('fallback');
+         expect(store.get('API_KEY')).toBe('bundled');
+         expect(consoleError).toHaveBeenCalledWith('Failed to fetch secrets, using the fallback:', expect.any(Error));
+
+         expect(await store.refresh()).toMatchObject({ added: ['PORT'], changed: ['API_KEY'] });
+         expect(store.source).toBe('provider');
+         expect(store.get('API_KEY')).toBe('first');
+      });
+   });
+
+   describe('watchSecrets', () => {
+      beforeEach(() => {
+         vi.stubEnv('API_KEY', undefined);
+         vi.stubEnv('PORT', undefined);
+         vi.stubEnv('DATABASE_URL', undefined);
+      });
+
+      it('should merge into process.env and apply changes', async () => {
+         const watcher = await watchSecrets({ input, ttl: 1000 });
+         expect(process.env.API_KEY).toBe('first');
+
+         fetchSecrets.mockResolvedValue({ API_KEY: 'second', DATABASE_URL: 'postgres://db' });
+         await vi.advanceTimersByTimeAsync(1000);
+
+         expect(process.env.API_KEY).toBe('second');
+         expect(process.env.DATABASE_URL).toBe('postgres://db');
+         expect(process.env.PORT).toBeUndefined();
+         watcher.close();
+      });
+
+      it('should leave keys alone that were set before watching', async () => {
+         vi.stubEnv('PORT', '8080');
+         const watcher = await watchSecrets({ input, ttl: 0 });
+
+         fetchSecrets.mockResolvedValue({ API_KEY: 'first' });
+         await watcher.refresh();
+
+         expect(process.env.PORT).toBe('8080');
+      });
+
+      it('should not remove keys set before watching when the provider overrode them', async () => {
+         vi.stubEnv('PORT', '3000');
+         const watcher = await watchSecrets({ input, ttl: 0 });
+         expect(process.env.PORT).toBe('8080');
+
+         fetchSecrets.mockResolvedValue({ API_KEY: 'first' });
+         await watcher.refresh();
+
+         expect(process.env.PORT).toBe('8080');
+      });
+
+      it('should pass the merge policy through', async () => {
+         vi.stubEnv('API_KEY', 'local');
+         const watcher = await watchSecrets({ input, ttl: 0, override: false, addPrefix: 'APP_' });
+
+         expect(process.env.API_KEY).toBe('local');
+         expect(process.env.APP_API_KEY).toBe('first');
+         watcher.close();
+         Reflect.deleteProperty(process.env, 'APP_API_KEY');
+         Reflect.deleteProperty(process.env, 'APP_PORT');
+      });
+   });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { validateSecrets } from '../src/schema';
+import type { StandardSchemaV1 } from '../src/types';
+
+describe('validateSecrets', () => {
+   it('should coerce values according to the built-in schema', async () => {
+      const secrets = await validateSecrets(
+         {
+            DATABASE_URL: 'postgres://localhost:5432/app',
+            PORT: '5432',
+            DEBUG: 'false',
+            FEATURES: '{"beta":true}',
+            EXTRA: 'kept',
+         },
+         {
+            DATABASE_URL: 'url',
+            PORT: 'number',
+            DEBUG: 'boolean',
+            FEATURES: 'json',
+            SENTRY_DSN: { type: 'string', optional: true },
+         },
+      );
+
+      expect(secrets).toEqual({
+         DATABASE_URL: 'postgres://localhost:5432/app',
+         PORT: 5432,
+         DEBUG: false,
+         FEATURES: { beta: true },
+         EXTRA: 'kept',
+      });
+      expectTypeOf(secrets.PORT).toEqualTypeOf<number>();
+      expectTypeOf(secrets.SENTRY_DSN).toEqualTypeOf<string | undefined>();
+   });
+
+   it('should report every missing or invalid key', async () => {
+      await expect(
+         validateSecrets(
+            { PORT: 'not-a-number', API_KEY: 'abc' },
+            { DATABASE_URL: 'string', PORT: 'number', API_KEY: { type: 'string', pattern: /^sk_/ } },
+         ),
+      ).rejects.toThrow(
+         'Secrets failed schema validation: DATABASE_URL is required; PORT must be a number; API_KEY does not match /^sk_/',
+      );
+   });
+
+   it('should treat empty strings as missing', async () => {
+      await expect(validateSecrets({ API_KEY: '' }, { API_KEY: 'string' })).rejects.toThrow('API_KEY is required');
+   });
+
+   it('should accept Standard Schema validators', async () => {
+      const schema: StandardSchemaV1<unknown, { API_KEY: string }> = {
+         '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: (value) => {
+               const record = value as Record<string, unknown>;
+               return typeof record.API_KEY === 'string'
+                  ? { value: { API_KEY: record.API_KEY } }
+                  : { issues: [{ message: 'Required', path: [{ key: 'API_KEY' }] }] };
+            },
+         },
+      };
+
+      const secrets = await validateSecrets({ API_KEY: 'abc', OTHER: 'dropped' }, schema);
+      expect(secrets).toEqual({ API_KEY: 'abc' });
+      expectTypeOf(secrets).toEqualTypeOf<{ API_KEY: string }>();
+
+      await expect(validateSecrets({}, schema)).rejects.toThrow('Secrets failed schema validation: API_KEY: Required');
+   });
+});
@@ -1,12 +1,18 @@
 import path from 'node:path';
 import { fs as memfs, vol } from 'memfs';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fromProvider } from '../src/providers/registry';
 import * as secretsModule from '../src/secrets';
 import * as secretsFilesModule from '../src/secrets-files';
 
 vi.mock('../src/secrets', () => ({
    encrypt: vi.fn(),
+   encryptStructured: vi.fn(),
    decrypt: vi.fn(),
+   reencrypt: vi.fn(),
+   inspect: vi.fn(),
+   verify: vi.fn(),
+   diff: vi.fn(),
    mergeSecrets: vi.fn(),
 }));
 
@@ -68,8 +74,10 @@ describe('secrets-files', () => {
          const fileContent = vol.readFileSync(DEFAULT_JS_PATH, 'utf-8');
          expect(fileContent).toContain('const secrets = require');
          expect(fileContent).toContain(`const CIPHER_TEXT = "${mockCipherText}"`);
-         expect(fileContent).toContain('const loadSecrets = () =>');
-         expect(fileContent).toContain('module.exports = { CIPHER_TEXT, loadSecrets }');
+         expect(fileContent).toContain(
+            'const loadSecrets = (options) => secrets.loadSecrets(CIPHER_TEXT, undefined, options);',
+         );
+         expect(fileContent).toContain('module.exports = { CIPHER_TEXT, loadSecrets, createSecretsStore }');
       });
 
       it('should create a CJS module with cipher text only when specified', async () => {
@@ -97,10 +105,377 @@ describe('secrets-files', () => {
 
          const fileContent = vol.readFileSync(customPath, 'utf-8');
          expect(fileContent).toContain('import secrets from');
-         expect(fileContent).toContain('export { CIPHER_TEXT, loadSecrets }');
+         expect(fileContent).toContain('export { CIPHER_TEXT, loadSecrets, createSecretsStore }');
 
          process.env.npm_package_type = originalEnv;
       });
+
+      it('should start generated modules with a comment', async () => {
+         await secretsFilesModule.build(testPayload);
+
+         const fileContent = vol.readFileSync(DEFAULT_JS_PATH, 'utf-8') as string;
+         expect(fileContent.split('\n')[0]).toBe('// This file was auto-generated by @jacobwolf/gitops-secrets');
+      });
+
+      it('should infer the format from the file extension', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'module.mjs');
+         await secretsFilesModule.build(testPayload, { path: customPath });
+
+         const fileContent = vol.readFileSync(customPath, 'utf-8');
+         expect(fileContent).toContain('import secrets from "@jacobwolf/gitops-secrets/no-fs";');
+         expect(fileContent).toContain('export { CIPHER_TEXT, loadSecrets, createSecretsStore };');
+      });
+
+      it('should use an explicit format over the extension and import from a custom specifier', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'module.js');
+         await secretsFilesModule.build(testPayload, {
+            path: customPath,
+            format: 'cjs',
+            importSpecifier: '@acme/gitops-secrets-runtime',
+         });
+
+         const fileContent = vol.readFileSync(customPath, 'utf-8');
+         expect(fileContent).toContain('const secrets = require("@acme/gitops-secrets-runtime");');
+      });
+
+      it('should write a typed TypeScript module', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'secrets.ts');
+         await secretsFilesModule.build({ ...testPayload, PORT: 8080 }, { path: customPath });
+
+         const fileContent = vol.readFileSync(customPath, 'utf-8');
+         expect(fileContent).toContain(
+            'import secrets, { type MergeDiff, type MergeOptions, type SecretsStore } from "@jacobwolf/gitops-secrets/no-fs";',
+         );
+         expect(fileContent).toContain('   readonly PORT: number;');
+         expect(fileContent).toContain(`export const CIPHER_TEXT: string = "${mockCipherText}";`);
+         expect(fileContent).toContain('export function loadSecrets(options?: LoadOptions): Promise<unknown> {');
+         expect(fileContent).toContain('export function createSecretsStore(): Promise<SecretsStore<Secrets>> {');
+         expect(fileContent).not.toContain('test-api-key');
+      });
+
+      it('should type the bundles of a per-environment TypeScript module', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'secrets.ts');
+         await secretsFilesModule.buildEnvironments(
+            { production: testPayload, preview: testPayload },
+            { path: customPath, format: 'ts' },
+         );
+
+         const fileContent = vol.readFileSync(customPath, 'utf-8');
+         expect(fileContent).toContain('export type Environment = "production" | "preview";');
+         expect(fileContent).toContain('export const CIPHER_TEXTS: Record<Environment, string> = {');
+         expect(fileContent).toContain(
+            'export function createSecretsStore(options?: { environment?: Environment }): Promise<SecretsStore<Secrets>> {',
+         );
+      });
+
+      it('should write only the cipher text in the json format', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'secrets.json');
+         await secretsFilesModule.build(testPayload, { path: customPath });
+
+         expect(JSON.parse(vol.readFileSync(customPath, 'utf-8') as string)).toEqual({ CIPHER_TEXT: mockCipherText });
+      });
+
+      it('should write ESM and CommonJS modules and declarations for the dual format', async () => {
+         await secretsFilesModule.build(testPayload, {
+            path: path.join(SECRETS_FOLDER, 'dual.js'),
+            format: 'dual',
+            declarations: true,
+         });
+
+         expect(vol.readFileSync(path.join(SECRETS_FOLDER, 'dual.mjs'), 'utf-8')).toContain('export {');
+         expect(vol.readFileSync(path.join(SECRETS_FOLDER, 'dual.cjs'), 'utf-8')).toContain('module.exports = {');
+         expect(vol.existsSync(path.join(SECRETS_FOLDER, 'dual.d.mts'))).toBe(true);
+         expect(vol.existsSync(path.join(SECRETS_FOLDER, 'dual.d.cts'))).toBe(true);
+         expect(vol.existsSync(path.join(SECRETS_FOLDER, 'dual.js'))).toBe(false);
+      });
+
+      it('should only write CommonJS to the default path', async () => {
+         await expect(secretsFilesModule.build(testPayload, { format: 'esm' })).rejects.toThrow(
+            "The default path is loaded with require and only supports the cjs format, got 'esm'",
+         );
+      });
+
+      it('should reject unknown formats', async () => {
+         await expect(
+            // biome-ignore lint/suspicious/noExplicitAny: Testing an invalid value
+            secretsFilesModule.build(testPayload, { path: path.join(SECRETS_FOLDER, 'x.js'), format: 'umd' as any }),
+         ).rejects.toThrow('Unsupported module format: umd. Expected one of esm, cjs, ts, json, dual');
+      });
+
+      it('should write a declaration file with key names but no values', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'typed.js');
+         await secretsFilesModule.build(
+            { ...testPayload, 'my-key': 'value' },
+            { path: customPath, cipherTextOnly: false, declarations: true },
+         );
+
+         const declarations = vol.readFileSync(path.join(SECRETS_FOLDER, 'typed.d.ts'), 'utf-8') as string;
+         expect(declarations).toContain('readonly API_KEY: string;');
+         expect(declarations).toContain('readonly "my-key": string;');
+         expect(declarations).toContain('   options?: LoadOptions,');
+         expect(declarations).toContain(
+            'export declare function createSecretsStore(): Promise<SecretsStore<Secrets>>;',
+         );
+         expect(declarations).toContain('interface ProcessEnv {');
+         expect(declarations).not.toContain('test-api-key');
+         expect(declarations).not.toContain(mockCipherText);
+      });
+
+      it('should declare native value types for the store and strings for process.env', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'native.js');
+         await secretsFilesModule.build(
+            { PORT: 8080, DEBUG: false, HOSTS: ['a', 'b'], DATABASE: { HOST: 'db', PORT: 5432 }, EMPTY: null },
+            { path: customPath, declarations: true },
+         );
+
+         const declarations = vol.readFileSync(path.join(SECRETS_FOLDER, 'native.d.ts'), 'utf-8') as string;
+         expect(declarations).toContain('readonly PORT: number;');
+         expect(declarations).toContain('readonly DEBUG: boolean;');
+         expect(declarations).toContain('readonly HOSTS: Array<string>;');
+         expect(declarations).toContain('readonly DATABASE: { HOST: string; PORT: number };');
+         expect(declarations).toContain('readonly EMPTY: null;');
+         expect(declarations).toContain('         PORT: string;');
+      });
+
+      it('should match the declaration extension to the module extension', async () => {
+         await secretsFilesModule.build(testPayload, {
+            path: path.join(SECRETS_FOLDER, 'typed.mjs'),
+            cipherTextOnly: true,
+            declarations: true,
+         });
+
+         const declarations = vol.readFileSync(path.join(SECRETS_FOLDER, 'typed.d.mts'), 'utf-8') as string;
+         expect(declarations).toContain('export declare const CIPHER_TEXT: string;');
+         expect(declarations).not.toContain('loadSecrets');
+      });
+
+      it('should not write a declaration file by default', async () => {
+         await secretsFilesModule.build(testPayload, { path: path.join(SECRETS_FOLDER, 'untyped.js') });
+
+         expect(vol.existsSync(path.join(SECRETS_FOLDER, 'untyped.d.ts'))).toBe(false);
+      });
+
+      it('should interpolate references before encrypting when enabled', async () => {
+         await secretsFilesModule.build(
+            { HOST: 'db.internal', URL: 'postgres://${HOST}' },
+            { interpolate: { env: {} } },
+         );
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(
+            JSON.stringify({ HOST: 'db.internal', URL: 'postgres://db.internal' }),
+            { metadata: undefined, compression: undefined },
+         );
+      });
+
+      it('should leave references alone by default', async () => {
+         await secretsFilesModule.encryptToFile({ URL: 'postgres://${HOST}' });
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify({ URL: 'postgres://${HOST}' }), {
+            metadata: undefined,
+         });
+      });
+
+      it('should fetch from a provider spec before encrypting', async () => {
+         const provider = { name: 'inline', fetchSecrets: vi.fn().mockResolvedValue(testPayload) };
+
+         await secretsFilesModule.build(fromProvider(provider, { team: 'platform' }));
+
+         expect(provider.fetchSecrets).toHaveBeenCalledWith({ team: 'platform' });
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: undefined,
+            compression: undefined,
+         });
+      });
+   });
+
+   describe('unchanged secrets', () => {
+      const keepPrevious = async (_payload: string, options?: { previous?: string }) =>
+         options?.previous || 'new-cipher-text';
+
+      it('should pass the cipher text of the existing module and keep the file when it is returned', async () => {
+         const filePath = '/tmp/unchanged/secrets.mjs';
+         vol.mkdirSync('/tmp/unchanged', { recursive: true });
+         vi.mocked(secretsModule.encrypt).mockImplementation(keepPrevious);
+
+         expect(await secretsFilesModule.build(testPayload, { path: filePath, declarations: true })).toBe(true);
+         const written = vol.statSync(filePath).mtimeMs;
+         expect(await secretsFilesModule.build(testPayload, { path: filePath, declarations: true })).toBe(false);
+
+         expect(secretsModule.encrypt).toHaveBeenLastCalledWith(JSON.stringify(testPayload), {
+            metadata: undefined,
+            previous: 'new-cipher-text',
+         });
+         expect(vol.statSync(filePath).mtimeMs).toBe(written);
+      });
+
+      it('should report a change when only the module options changed', async () => {
+         const filePath = '/tmp/unchanged/options.mjs';
+         vol.mkdirSync('/tmp/unchanged', { recursive: true });
+         vi.mocked(secretsModule.encrypt).mockImplementation(keepPrevious);
+
+         await secretsFilesModule.build(testPayload, { path: filePath });
+
+         expect(await secretsFilesModule.build(testPayload, { path: filePath, cipherTextOnly: true })).toBe(true);
+      });
+
+      it('should pass the previous bundle of each environment', async () => {
+         const filePath = '/tmp/unchanged/environments.mjs';
+         vol.mkdirSync('/tmp/unchanged', { recursive: true });
+         vi.mocked(secretsModule.encrypt).mockImplementation(
+            async (_payload, options) => options?.previous || `ct-${options?.environment}`,
+         );
+
+         await secretsFilesModule.buildEnvironments({ production: testPayload }, { path: filePath });
+         await secretsFilesModule.buildEnvironments({ production: testPayload }, { path: filePath });
+
+         expect(secretsModule.encrypt).toHaveBeenLastCalledWith(JSON.stringify(testPayload), {
+            environment: 'production',
+            metadata: { environment: 'production' },
+            previous: 'ct-production',
+         });
+      });
+
+      it('should pass the existing encrypted JSON file', async () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, `${mockCipherText}\n`);
+
+         expect(await secretsFilesModule.encryptToFile(testPayload)).toBe(true);
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: undefined,
+            previous: mockCipherText,
+         });
+         expect(await secretsFilesModule.encryptToFile(testPayload)).toBe(false);
+      });
+
+      it('should ignore an existing file that is not a generated module', async () => {
+         await secretsFilesModule.build(testPayload);
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: undefined,
+            previous: undefined,
+         });
+      });
+   });
+
+   describe('buildEnvironments', () => {
+      it('should encrypt each environment under its own key into one module', async () => {
+         await secretsFilesModule.buildEnvironments({
+            production: testPayload,
+            preview: { API_KEY: 'preview-api-key' },
+         });
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            environment: 'production',
+            metadata: { environment: 'production' },
+            compression: undefined,
+         });
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify({ API_KEY: 'preview-api-key' }), {
+            environment: 'preview',
+            metadata: { environment: 'preview' },
+            compression: undefined,
+         });
+
+         const fileContent = vol.readFileSync(DEFAULT_JS_PATH, 'utf-8');
+         expect(fileContent).toContain(
+            `const CIPHER_TEXTS = ${JSON.stringify({ production: mockCipherText, preview: mockCipherText })};`,
+         );
+         expect(fileContent).toContain('secrets.loadSecrets(CIPHER_TEXTS, undefined, options)');
+         expect(fileContent).toContain('module.exports = { CIPHER_TEXTS, loadSecrets, createSecretsStore }');
+      });
+
+      it('should declare keys missing from some environments as optional', async () => {
+         const customPath = path.join(SECRETS_FOLDER, 'environments.js');
+         await secretsFilesModule.buildEnvironments(
+            { production: testPayload, preview: { API_KEY: 'preview-api-key' } },
+            { path: customPath, declarations: true },
+         );
+
+         const declarations = vol.readFileSync(path.join(SECRETS_FOLDER, 'environments.d.ts'), 'utf-8') as string;
+         expect(declarations).toContain('readonly API_KEY: string;');
+         expect(declarations).toContain('readonly SECRET_TOKEN?: string;');
+         expect(declarations).toContain('export type Environment = "production" | "preview";');
+         expect(declarations).toContain('export type LoadOptions = MergeOptions & { environment?: Environment };');
+      });
+
+      it('should name the environment that failed', async () => {
+         await expect(
+            secretsFilesModule.buildEnvironments(
+               { production: testPayload, preview: {} },
+               { schema: { API_KEY: 'string' } },
+            ),
+         ).rejects.toThrow("Environment 'preview' failed: Secrets failed schema validation: API_KEY is required");
+         expect(secretsModule.encrypt).not.toHaveBeenCalled();
+      });
+   });
+
+   describe('metadata', () => {
+      beforeEach(() => {
+         vi.stubEnv('GITHUB_SHA', 'abc123');
+      });
+
+      afterEach(() => {
+         vi.unstubAllEnvs();
+      });
+
+      it('should record the commit and key names when enabled', async () => {
+         await secretsFilesModule.build(testPayload, { path: null, metadata: true });
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: { commit: 'abc123', keys: ['API_KEY', 'SECRET_TOKEN'] },
+            compression: undefined,
+         });
+      });
+
+      it('should let explicit fields take precedence', async () => {
+         await secretsFilesModule.encryptToFile(testPayload, {
+            path: null,
+            metadata: { environment: 'production', commit: 'def456' },
+         });
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: { environment: 'production', commit: 'def456', keys: ['API_KEY', 'SECRET_TOKEN'] },
+            compression: undefined,
+         });
+      });
+
+      it('should add the commit and key names to each environment bundle', async () => {
+         await secretsFilesModule.buildEnvironments({ production: testPayload }, { path: null, metadata: true });
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            environment: 'production',
+            metadata: { environment: 'production', commit: 'abc123', keys: ['API_KEY', 'SECRET_TOKEN'] },
+            compression: undefined,
+         });
+      });
+   });
+
+   describe('schema', () => {
+      it('should fail the build before writing when secrets are missing', async () => {
+         vol.rmSync(DEFAULT_JS_PATH);
+
+         await expect(
+            secretsFilesModule.build(testPayload, { schema: { API_KEY: 'string', DATABASE_URL: 'url' } }),
+         ).rejects.toThrow('DATABASE_URL is required');
+
+         expect(secretsModule.encrypt).not.toHaveBeenCalled();
+         expect(vol.existsSync(DEFAULT_JS_PATH)).toBe(false);
+      });
+
+      it('should fail encryptToFile when secrets are invalid', async () => {
+         await expect(
+            secretsFilesModule.encryptToFile(testPayload, { schema: { API_KEY: { type: 'string', pattern: /^sk_/ } } }),
+         ).rejects.toThrow('API_KEY does not match');
+      });
+
+      it('should validate decrypted files', async () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+
+         const result = await secretsFilesModule.decryptFromFile(DEFAULT_JSON_PATH, { schema: { API_KEY: 'string' } });
+         expect(result.API_KEY).toBe('test-api-key');
+
+         await expect(
+            secretsFilesModule.decryptFromFile(DEFAULT_JSON_PATH, { schema: { PORT: 'number' } }),
+         ).rejects.toThrow('PORT is required');
+      });
    });
 
    describe('encryptToFile', () => {
@@ -109,7 +484,10 @@ describe('secrets-files', () => {
 
          expect(vol.existsSync(DEFAULT_JSON_PATH)).toBe(true);
          expect(vol.readFileSync(DEFAULT_JSON_PATH, 'utf-8')).toBe(mockCipherText);
-         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload));
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify(testPayload), {
+            metadata: undefined,
+            compression: undefined,
+         });
       });
 
       it('should write to custom path when specified', async () => {
@@ -119,6 +497,42 @@ describe('secrets-files', () => {
          expect(vol.existsSync(customPath)).toBe(true);
          expect(vol.readFileSync(customPath, 'utf-8')).toBe(mockCipherText);
       });
+
+      it('should merge secrets from several provider specs', async () => {
+         await secretsFilesModule.encryptToFile([
+            fromProvider({ name: 'first', fetchSecrets: vi.fn().mockResolvedValue({ A: '1', B: '1' }) }),
+            fromProvider({ name: 'second', fetchSecrets: vi.fn().mockResolvedValue({ B: '2' }) }),
+         ]);
+
+         expect(secretsModule.encrypt).toHaveBeenCalledWith(JSON.stringify({ A: '1', B: '2' }), {
+            metadata: undefined,
+         });
+      });
+
+      it('should write a structured document, passing the existing file as the previous document', async () => {
+         vi.mocked(secretsModule.encryptStructured).mockResolvedValueOnce('{"A": "ENC[first]"}\n');
+         vi.mocked(secretsModule.encryptStructured).mockResolvedValueOnce('{"A": "ENC[second]"}\n');
+
+         await secretsFilesModule.encryptToFile(testPayload, { structured: true });
+         await secretsFilesModule.encryptToFile(testPayload, { structured: true, metadata: { commit: 'abc' } });
+
+         expect(secretsModule.encrypt).not.toHaveBeenCalled();
+         expect(secretsModule.encryptStructured).toHaveBeenNthCalledWith(1, testPayload, {
+            metadata: undefined,
+            previous: undefined,
+         });
+         expect(secretsModule.encryptStructured).toHaveBeenNthCalledWith(2, testPayload, {
+            metadata: { commit: 'abc', keys: ['API_KEY', 'SECRET_TOKEN'] },
+            previous: '{"A": "ENC[first]"}\n',
+         });
+         expect(vol.readFileSync(DEFAULT_JSON_PATH, 'utf-8')).toBe('{"A": "ENC[second]"}\n');
+      });
+
+      it('should reject compression for structured documents', async () => {
+         await expect(
+            secretsFilesModule.encryptToFile(testPayload, { structured: true, compression: 'gzip' }),
+         ).rejects.toThrow('Structured files encrypt each value separately and cannot be compressed');
+      });
    });
 
    describe('decryptFromFile', () => {
@@ -144,7 +558,166 @@ describe('secrets-files', () => {
          const result = await secretsFilesModule.decryptFromFile(DEFAULT_JSON_PATH);
          result.mergeSecrets();
 
-         expect(secretsModule.mergeSecrets).toHaveBeenCalledWith(testPayload, expect.anything());
+         expect(secretsModule.mergeSecrets).toHaveBeenCalledWith(testPayload, expect.anything(), undefined);
+      });
+
+      it('should pass merge options through to mergeSecrets', async () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+
+         const result = await secretsFilesModule.decryptFromFile(DEFAULT_JSON_PATH);
+         result.mergeSecrets({ override: false, include: ['API_*'] });
+
+         expect(secretsModule.mergeSecrets).toHaveBeenCalledWith(testPayload, expect.anything(), {
+            override: false,
+            include: ['API_*'],
+         });
+      });
+   });
+
+   describe('reencryptFile', () => {
+      it('should rewrite the file with the re-encrypted cipher text', async () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+         vi.mocked(secretsModule.reencrypt).mockResolvedValue('rotated-cipher-text');
+
+         await secretsFilesModule.reencryptFile(DEFAULT_JSON_PATH);
+
+         expect(secretsModule.reencrypt).toHaveBeenCalledWith(mockCipherText);
+         expect(vol.readFileSync(DEFAULT_JSON_PATH, 'utf-8')).toBe('rotated-cipher-text');
+      });
+
+      it('should leave the file untouched when re-encryption fails', async () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+         vi.mocked(secretsModule.reencrypt).mockRejectedValue(new Error('Decryption failed'));
+
+         await expect(secretsFilesModule.reencryptFile(DEFAULT_JSON_PATH)).rejects.toThrow('Failed to re-encrypt file');
+         expect(vol.readFileSync(DEFAULT_JSON_PATH, 'utf-8')).toBe(mockCipherText);
+      });
+   });
+
+   describe('inspectFile', () => {
+      const info = { format: 'envelope', version: 2 } as ReturnType<typeof secretsModule.inspect>;
+
+      const modulePath = path.join(SECRETS_FOLDER, 'secrets.js');
+
+      beforeEach(() => {
+         vi.mocked(secretsModule.inspect).mockReturnValue(info);
+      });
+
+      it('should inspect an encrypted JSON file', () => {
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+
+         expect(secretsFilesModule.inspectFile(DEFAULT_JSON_PATH)).toBe(info);
+         expect(secretsModule.inspect).toHaveBeenCalledWith(mockCipherText);
+      });
+
+      it('should inspect a structured document', () => {
+         const document = JSON.stringify({ API_KEY: 'ENC[...]', 'gitops-secrets': { version: 1 } });
+         vol.writeFileSync(DEFAULT_JSON_PATH, document);
+
+         expect(secretsFilesModule.inspectFile(DEFAULT_JSON_PATH)).toBe(info);
+         expect(secretsModule.inspect).toHaveBeenCalledWith(document);
+      });
+
+      it('should inspect the cipher text of a generated module', async () => {
+         await secretsFilesModule.build(testPayload, { path: modulePath, cipherTextOnly: true });
+
+         expect(secretsFilesModule.inspectFile(modulePath)).toBe(info);
+         expect(secretsModule.inspect).toHaveBeenCalledWith(mockCipherText);
+      });
+
+      it('should inspect every bundle of a module written by buildEnvironments', async () => {
+         vi.mocked(secretsModule.encrypt).mockImplementation(async (_payload, options) => `ct-${options?.environment}`);
+         await secretsFilesModule.buildEnvironments(
+            { production: testPayload, staging: testPayload },
+            { path: modulePath },
+         );
+
+         expect(secretsFilesModule.inspectFile(modulePath)).toEqual({ production: info, staging: info });
+         expect(secretsModule.inspect).toHaveBeenCalledWith('ct-production');
+         expect(secretsModule.inspect).toHaveBeenCalledWith('ct-staging');
+      });
+
+      it('should inspect TypeScript and json modules', async () => {
+         const typeScriptPath = path.join(SECRETS_FOLDER, 'secrets.ts');
+         const jsonPath = path.join(SECRETS_FOLDER, 'secrets.json');
+         await secretsFilesModule.build(testPayload, { path: typeScriptPath });
+         await secretsFilesModule.build(testPayload, { path: jsonPath });
+
+         expect(secretsFilesModule.inspectFile(typeScriptPath)).toBe(info);
+         expect(secretsFilesModule.inspectFile(jsonPath)).toBe(info);
+         expect(secretsModule.inspect).toHaveBeenNthCalledWith(1, mockCipherText);
+         expect(secretsModule.inspect).toHaveBeenNthCalledWith(2, mockCipherText);
+      });
+
+      it('should throw when the module has no cipher text', () => {
+         vol.writeFileSync(modulePath, 'module.exports = {};');
+
+         expect(() => secretsFilesModule.inspectFile(modulePath)).toThrow(
+            `Failed to inspect file ${modulePath}: Error: No CIPHER_TEXT or CIPHER_TEXTS export found`,
+         );
+      });
+   });
+
+   describe('verifyFile', () => {
+      it('should verify the cipher text with the given options', async () => {
+         const report = { valid: true, info: null, keys: ['API_KEY'], missing: [], errors: [] };
+         vi.mocked(secretsModule.verify).mockResolvedValue(report);
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+
+         expect(await secretsFilesModule.verifyFile(DEFAULT_JSON_PATH, { require: ['API_KEY'] })).toBe(report);
+         expect(secretsModule.verify).toHaveBeenCalledWith(mockCipherText, { require: ['API_KEY'] });
+      });
+
+      it('should report an unreadable file instead of throwing', async () => {
+         const result = await secretsFilesModule.verifyFile('/tmp/missing.json');
+
+         expect(result.valid).toBe(false);
+         expect(result.errors[0]).toContain('Failed to read file /tmp/missing.json');
+         expect(secretsModule.verify).not.toHaveBeenCalled();
+      });
+   });
+
+   describe('diffFiles', () => {
+      it('should diff the cipher text of an encrypted JSON file and a generated module', async () => {
+         const result = { added: ['NEW'], removed: [], changed: ['API_KEY'], unchanged: [] };
+         vi.mocked(secretsModule.diff).mockResolvedValue(result);
+         const oldPath = path.join(SECRETS_FOLDER, 'old.json');
+         const newPath = path.join(SECRETS_FOLDER, 'new.mjs');
+         vol.writeFileSync(oldPath, 'old-cipher-text');
+         vol.writeFileSync(newPath, 'export const CIPHER_TEXT = "new-cipher-text";\n');
+
+         expect(await secretsFilesModule.diffFiles(oldPath, newPath, { environment: 'production' })).toBe(result);
+         expect(secretsModule.diff).toHaveBeenCalledWith('old-cipher-text', 'new-cipher-text', {
+            environment: 'production',
+         });
+      });
+
+      it('should name the file that could not be read', async () => {
+         const missingPath = path.join(SECRETS_FOLDER, 'missing.json');
+         vol.writeFileSync(DEFAULT_JSON_PATH, mockCipherText);
+
+         await expect(secretsFilesModule.diffFiles(DEFAULT_JSON_PATH, missingPath)).rejects.toThrow(
+            `Failed to read file ${missingPath}`,
+         );
+      });
+   });
+
+   describe('fileFallback', () => {
+      const fallbackPath = path.join(SECRETS_FOLDER, 'doppler.json');
+
+      it('should write the secrets encrypted and read them back', async () => {
+         const fallback = secretsFilesModule.fileFallback(fallbackPath);
+
+         await fallback.write(testPayload);
+
+         expect(vol.readFileSync(fallbackPath, 'utf-8')).toBe(mockCipherText);
+         await expect(fallback.read()).resolves.toEqual(testPayload);
+      });
+
+      it('should reject when the file cannot be read', async () => {
+         await expect(secretsFilesModule.fileFallback(fallbackPath).read()).rejects.toThrow(
+            `Failed to decrypt file ${fallbackPath}`,
+         );
       });
    });
 
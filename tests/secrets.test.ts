@@ -1,9 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { decrypt, encrypt, loadSecrets, mergeSecrets } from '../src/secrets';
+import {
+   MissingSecretError,
+   clearCache,
+   configureCache,
+   createSecretsStore,
+   decrypt,
+   encrypt,
+   generateMasterKey,
+   inspect,
+   loadSecrets,
+   mergeSecrets,
+   reencrypt,
+   verify,
+} from '../src/secrets';
 import { EnvTarget } from '../src/types';
 
 process.env.GITOPS_SECRETS_MASTER_KEY = 'test-master-key-16chars+';
 
+const readHeader = (cipherText: string) => JSON.parse(atob(cipherText.split(':')[1]));
+
 describe('Secrets module', () => {
    const originalEnv = { ...process.env };
 
@@ -41,13 +56,66 @@ describe('Secrets module', () => {
       it('should encrypt data with expected format', async () => {
          const result = await encrypt('test-secret');
 
-         expect(result).toMatch(/^base64:\d+:[A-Za-z0-9+/]+=*:[A-Za-z0-9+/]+=*:[A-Za-z0-9+/]+=*$/);
+         expect(result).toMatch(/^gs2:[A-Za-z0-9+/]+=*:[A-Za-z0-9+/]+=*$/);
+         expect(readHeader(result)).toEqual({
+            version: 2,
+            kdf: 'PBKDF2',
+            hash: 'SHA-256',
+            rounds: 1000000,
+            salt: 'AQIDBAUGBwg=',
+            cipher: 'AES-GCM',
+            iv: 'AQIDBAUGBwgJCgsM',
+            createdAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/),
+         });
 
          expect(global.crypto.getRandomValues).toHaveBeenCalledTimes(2);
          expect(global.crypto.subtle.importKey).toHaveBeenCalledTimes(1);
          expect(global.crypto.subtle.deriveKey).toHaveBeenCalledTimes(1);
          expect(global.crypto.subtle.encrypt).toHaveBeenCalledTimes(1);
       });
+
+      it('should append the current key ID when configured', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY_ID = 'key-2025';
+
+         const result = await encrypt('test-secret');
+
+         expect(readHeader(result).keyId).toBe('key-2025');
+      });
+
+      it('should import a raw key and skip PBKDF2 in raw key mode', async () => {
+         process.env.GITOPS_SECRETS_KEY_MODE = 'raw';
+         process.env.GITOPS_SECRETS_MASTER_KEY = 'ab'.repeat(32);
+
+         const result = await encrypt('test-secret');
+
+         expect(readHeader(result)).toMatchObject({
+            version: 2,
+            kdf: 'none',
+            cipher: 'AES-GCM',
+            iv: 'AQIDBAUGBwgJCgsM',
+         });
+         expect(readHeader(result)).not.toHaveProperty('salt');
+         expect(global.crypto.subtle.deriveKey).not.toHaveBeenCalled();
+         expect(global.crypto.subtle.importKey).toHaveBeenCalledWith(
+            'raw',
+            new Uint8Array(32).fill(0xab),
+            { name: 'AES-GCM' },
+            false,
+            ['encrypt', 'decrypt'],
+         );
+      });
+
+      it('should reject raw keys that are not 256 bits', async () => {
+         process.env.GITOPS_SECRETS_KEY_MODE = 'raw';
+
+         await expect(encrypt('test-secret')).rejects.toThrow('Raw master keys must be 256-bit keys');
+      });
+
+      it('should reject key IDs containing separators', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY_ID = 'bad:id';
+
+         await expect(encrypt('test-secret')).rejects.toThrow('GITOPS_SECRETS_MASTER_KEY_ID');
+      });
    });
 
    describe('decrypt', () => {
@@ -65,10 +133,433 @@ describe('Secrets module', () => {
          expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
       });
 
+      it('should bind the envelope header as additional authenticated data', async () => {
+         const encrypted = await encrypt('test-secret');
+         await decrypt(encrypted);
+
+         const encodedHeader = encrypted.split(':')[1];
+         const [params] = vi.mocked(global.crypto.subtle.decrypt).mock.calls[0];
+         expect(new TextDecoder().decode((params as AesGcmParams).additionalData as Uint8Array)).toBe(encodedHeader);
+      });
+
+      it('should use the raw key path when the envelope records no KDF', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(7)));
+         const header = btoa(JSON.stringify({ version: 2, kdf: 'none', cipher: 'AES-GCM', iv: 'AQIDBAUGBwgJCgsM' }));
+
+         await decrypt(`gs2:${header}:FRUWEQ==`);
+
+         expect(global.crypto.subtle.deriveKey).not.toHaveBeenCalled();
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reject envelopes with an unsupported cipher', async () => {
+         const header = btoa(JSON.stringify({ version: 2, kdf: 'PBKDF2', hash: 'SHA-256', cipher: 'ChaCha20' }));
+         await expect(decrypt(`gs2:${header}:FRUWEQ==`)).rejects.toThrow('Unsupported cipher: ChaCha20');
+      });
+
       it('should throw error for invalid data format', async () => {
          const invalidData = 'base64:invalid-format';
          await expect(decrypt(invalidData)).rejects.toThrow('Encrypted payload invalid');
       });
+
+      it('should fall back to the previous master key', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY_PREVIOUS = 'previous-master-key-16+';
+
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi
+            .fn()
+            .mockRejectedValueOnce(new Error('The operation failed for an operation-specific reason'))
+            .mockResolvedValueOnce(new TextEncoder().encode('decrypted').buffer);
+
+         const result = await decrypt('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==');
+
+         expect(result).toBe('decrypted');
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(2);
+      });
+
+      it('should only try the key matching the payload key ID', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY_ID = 'new';
+         process.env.GITOPS_SECRETS_MASTER_KEY_PREVIOUS = 'previous-master-key-16+';
+         process.env.GITOPS_SECRETS_MASTER_KEY_PREVIOUS_ID = 'old';
+
+         await decrypt('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==:old');
+
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
+         expect(
+            new TextDecoder().decode(vi.mocked(global.crypto.subtle.importKey).mock.calls[0][1] as Uint8Array),
+         ).toBe('previous-master-key-16+');
+      });
+
+      it('should throw when no configured key matches the payload key ID', async () => {
+         await expect(decrypt('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==:unknown')).rejects.toThrow(
+            "No master key is configured for key ID 'unknown'",
+         );
+      });
+   });
+
+   describe('environments', () => {
+      const cipherText = 'base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==';
+      const importedKey = () =>
+         new TextDecoder().decode(vi.mocked(global.crypto.subtle.importKey).mock.calls[0][1] as Uint8Array);
+
+      it("should encrypt under the environment's master key when configured", async () => {
+         process.env.GITOPS_SECRETS_PRODUCTION_MASTER_KEY = 'production-master-key+';
+         process.env.GITOPS_SECRETS_PRODUCTION_MASTER_KEY_ID = 'prd';
+
+         const result = await encrypt('test-secret', { environment: 'production' });
+
+         expect(readHeader(result).keyId).toBe('prd');
+         expect(importedKey()).toBe('production-master-key+');
+      });
+
+      it('should fall back to the shared master key', async () => {
+         process.env.GITOPS_SECRETS_PRODUCTION_MASTER_KEY = 'production-master-key+';
+
+         await decrypt(cipherText, { environment: 'preview' });
+
+         expect(importedKey()).toBe('test-master-key-16chars+');
+      });
+
+      it('should load the bundle for an explicit environment', async () => {
+         const secrets = await loadSecrets({ production: cipherText, preview: 'invalid' }, EnvTarget.PROCESS, {
+            environment: 'production',
+            schema: { TEST_SECRET: 'string' },
+         });
+
+         expect(secrets).toEqual({ TEST_SECRET: 'test-value' });
+      });
+
+      it('should prefer GITOPS_SECRETS_ENV over NODE_ENV', async () => {
+         process.env.GITOPS_SECRETS_ENV = 'preview';
+         process.env.NODE_ENV = 'production';
+
+         await loadSecrets({ production: 'invalid', preview: cipherText }, EnvTarget.PROCESS, {
+            schema: { TEST_SECRET: 'string' },
+         });
+
+         expect(process.env.TEST_SECRET).toBe('test-value');
+      });
+
+      it('should name the available bundles when the environment has none', async () => {
+         await expect(
+            loadSecrets({ production: cipherText }, EnvTarget.PROCESS, {
+               environment: 'staging',
+               schema: { TEST_SECRET: 'string' },
+            }),
+         ).rejects.toThrow("No secrets bundle for environment 'staging'. Available: production");
+      });
+
+      it('should reject environment names that cannot be used in variable names', async () => {
+         await expect(encrypt('test-secret', { environment: 'prod uction' })).rejects.toThrow(
+            'Environment names may only contain',
+         );
+      });
+   });
+
+   describe('createSecretsStore', () => {
+      const cipherText = 'base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==';
+
+      it('should expose secrets without touching process.env', async () => {
+         const store = await createSecretsStore(cipherText);
+
+         expect(store.get('TEST_SECRET')).toBe('test-value');
+         expect(store.require('TEST_SECRET')).toBe('test-value');
+         expect(store.has('TEST_SECRET')).toBe(true);
+         expect(store.toObject()).toEqual({ TEST_SECRET: 'test-value' });
+         expect(process.env.TEST_SECRET).toBeUndefined();
+      });
+
+      it('should keep native types', async () => {
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi
+            .fn()
+            .mockResolvedValue(
+               new TextEncoder().encode(JSON.stringify({ PORT: 8080, DATABASE: { HOST: 'db' } })).buffer,
+            );
+
+         const store = await createSecretsStore(cipherText);
+
+         expect(store.get('PORT')).toBe(8080);
+         expect(store.get('DATABASE')).toEqual({ HOST: 'db' });
+      });
+
+      it('should decrypt once', async () => {
+         const store = await createSecretsStore(cipherText);
+         store.get('TEST_SECRET');
+         store.toObject();
+
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
+      });
+
+      it('should name the key on a miss', async () => {
+         const store = await createSecretsStore(cipherText);
+
+         expect(store.get('MISSING')).toBeUndefined();
+         expect(store.has('MISSING')).toBe(false);
+         expect(store.has('toString')).toBe(false);
+         expect(() => store.require('MISSING')).toThrow(MissingSecretError);
+         expect(() => store.require('MISSING')).toThrow("Secret 'MISSING' is not set");
+      });
+
+      it('should not expose mutable state', async () => {
+         const store = await createSecretsStore(cipherText);
+         const copy = store.toObject();
+         copy.TEST_SECRET = 'changed';
+
+         expect(store.get('TEST_SECRET')).toBe('test-value');
+      });
+
+      it('should type and coerce values with a schema', async () => {
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi
+            .fn()
+            .mockResolvedValue(new TextEncoder().encode(JSON.stringify({ PORT: '8080' })).buffer);
+
+         const store = await createSecretsStore(cipherText, { schema: { PORT: 'number' } });
+         const port: number = store.require('PORT');
+
+         expect(port).toBe(8080);
+      });
+
+      it('should select a bundle by environment', async () => {
+         const store = await createSecretsStore({ production: cipherText }, { environment: 'production' });
+
+         expect(store.get('TEST_SECRET')).toBe('test-value');
+      });
+   });
+
+   describe('build metadata', () => {
+      const metadata = { environment: 'production', commit: 'abc123', keys: ['TEST_SECRET'] };
+
+      it('should store metadata readably in the authenticated header', async () => {
+         const result = await encrypt('{}', { metadata });
+
+         expect(readHeader(result).metadata).toEqual(metadata);
+         expect(global.crypto.subtle.encrypt).toHaveBeenCalledWith(
+            expect.objectContaining({ additionalData: new TextEncoder().encode(result.split(':')[1]) }),
+            expect.anything(),
+            expect.anything(),
+         );
+         expect(inspect(result).metadata).toEqual(metadata);
+      });
+
+      it('should reject invalid environment names', async () => {
+         await expect(encrypt('{}', { metadata: { environment: 'prod env' } })).rejects.toThrow(
+            "Environment names may only contain letters, digits, '.', '_' and '-', got 'prod env'",
+         );
+      });
+
+      it('should reject cipher text built for another environment', async () => {
+         const production = await encrypt('{}', { metadata: { environment: 'production' } });
+
+         await expect(decrypt(production, { environment: 'staging' })).rejects.toThrow(
+            "Decryption failed: Cipher text was built for environment 'production', expected 'staging'",
+         );
+         await expect(decrypt(production, { environment: 'production' })).resolves.toBeDefined();
+         await expect(decrypt(production)).resolves.toBeDefined();
+      });
+
+      it('should fail loading a bundle swapped in from another environment', async () => {
+         const staging = await encrypt('{}', { metadata: { environment: 'staging' } });
+
+         await expect(
+            loadSecrets({ production: staging }, EnvTarget.PROCESS, {
+               environment: 'production',
+               schema: { TEST_SECRET: 'string' },
+            }),
+         ).rejects.toThrow("built for environment 'staging', expected 'production'");
+      });
+
+      it('should keep metadata when re-encrypting', async () => {
+         const result = await reencrypt(await encrypt('{}', { metadata }));
+
+         expect(readHeader(result).metadata).toEqual(metadata);
+      });
+   });
+
+   describe('inspect', () => {
+      it('should read envelope metadata without the master key', async () => {
+         const cipherText = await encrypt('{}');
+         process.env.GITOPS_SECRETS_MASTER_KEY = '';
+
+         expect(inspect(cipherText)).toEqual({
+            format: 'envelope',
+            version: 2,
+            kdf: 'PBKDF2',
+            hash: 'SHA-256',
+            rounds: 1000000,
+            cipher: 'AES-GCM',
+            keyId: null,
+            createdAt: expect.any(String),
+            keyFingerprint: null,
+            metadata: null,
+            compression: null,
+            chunkSize: null,
+            recipients: null,
+            size: 5,
+         });
+      });
+
+      it('should fingerprint raw keys without deriving them again', async () => {
+         process.env.GITOPS_SECRETS_KEY_MODE = 'raw';
+         process.env.GITOPS_SECRETS_MASTER_KEY = 'ab'.repeat(32);
+
+         expect(inspect(await encrypt('{}')).keyFingerprint).toBe('4ced4921a50abc61');
+         expect(global.crypto.subtle.importKey).toHaveBeenCalledTimes(1);
+      });
+
+      it('should read legacy cipher texts', () => {
+         expect(inspect('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==:old')).toMatchObject({
+            format: 'legacy',
+            version: 1,
+            rounds: 1000000,
+            keyId: 'old',
+            createdAt: null,
+            keyFingerprint: null,
+            size: 4,
+         });
+      });
+   });
+
+   describe('verify', () => {
+      const cipherText = 'base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==';
+
+      it('should report a valid payload and its keys', async () => {
+         const result = await verify(cipherText, { require: ['TEST_SECRET'] });
+
+         expect(result).toMatchObject({ valid: true, keys: ['TEST_SECRET'], missing: [], errors: [] });
+         expect(result.info?.format).toBe('legacy');
+      });
+
+      it('should report missing keys and schema failures', async () => {
+         const result = await verify(cipherText, { require: ['API_KEY'], schema: { TEST_SECRET: 'number' } });
+
+         expect(result.valid).toBe(false);
+         expect(result.missing).toEqual(['API_KEY']);
+         expect(result.errors).toEqual([
+            'Missing required secrets: API_KEY',
+            'Secrets failed schema validation: TEST_SECRET must be a number',
+         ]);
+      });
+
+      it('should not count inherited properties as present', async () => {
+         const result = await verify(cipherText, { require: ['toString'] });
+
+         expect(result.valid).toBe(false);
+         expect(result.missing).toEqual(['toString']);
+      });
+
+      it('should report decryption failures instead of throwing', async () => {
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi.fn().mockRejectedValue(new Error('bad key'));
+
+         const result = await verify(cipherText);
+
+         expect(result.valid).toBe(false);
+         expect(result.keys).toEqual([]);
+         expect(result.errors).toEqual(['Decryption failed: bad key']);
+      });
+
+      it('should verify the bundle for an environment', async () => {
+         const result = await verify({ production: cipherText }, { environment: 'staging' });
+
+         expect(result.errors).toEqual(["No secrets bundle for environment 'staging'. Available: production"]);
+      });
+   });
+
+   describe('generateMasterKey', () => {
+      it('should return a base64 encoded 256-bit key', () => {
+         expect(atob(generateMasterKey())).toHaveLength(32);
+      });
+   });
+
+   describe('reencrypt', () => {
+      it('should decrypt with the keyring and encrypt under the current key', async () => {
+         process.env.GITOPS_SECRETS_MASTER_KEY_ID = 'new';
+
+         const result = await reencrypt('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==');
+
+         expect(readHeader(result).keyId).toBe('new');
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
+         expect(global.crypto.subtle.encrypt).toHaveBeenCalledTimes(1);
+      });
+   });
+
+   describe('cache', () => {
+      const encryptedData = 'base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==';
+
+      afterEach(() => {
+         configureCache({ enabled: false });
+         vi.useRealTimers();
+      });
+
+      it('should derive keys on every call by default', async () => {
+         await decrypt(encryptedData);
+         await decrypt(encryptedData);
+
+         expect(global.crypto.subtle.deriveKey).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reuse derived keys when enabled', async () => {
+         configureCache({ enabled: true });
+
+         await decrypt(encryptedData);
+         await decrypt(encryptedData);
+
+         expect(global.crypto.subtle.deriveKey).toHaveBeenCalledTimes(1);
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reuse decrypted payloads when enabled', async () => {
+         configureCache({ enabled: true, payloads: true });
+
+         await loadSecrets(encryptedData);
+         await loadSecrets(encryptedData);
+
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(1);
+         expect(process.env.TEST_SECRET).toBe('test-value');
+      });
+
+      it('should not reuse decrypted payloads once the master key changes', async () => {
+         configureCache({ enabled: true, payloads: true });
+
+         await decrypt(encryptedData);
+         process.env.GITOPS_SECRETS_MASTER_KEY = 'another-master-key-16+';
+         await decrypt(encryptedData);
+
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not reuse decrypted payloads once the master key is removed', async () => {
+         configureCache({ enabled: true, payloads: true });
+
+         await decrypt(encryptedData);
+         Reflect.deleteProperty(process.env, 'GITOPS_SECRETS_MASTER_KEY');
+
+         await expect(decrypt(encryptedData)).rejects.toThrow('GITOPS_SECRETS_MASTER_KEY');
+      });
+
+      it('should expire entries after the ttl', async () => {
+         vi.useFakeTimers();
+         configureCache({ enabled: true, ttl: 1000 });
+
+         await decrypt(encryptedData);
+         vi.advanceTimersByTime(1001);
+         await decrypt(encryptedData);
+
+         expect(global.crypto.subtle.deriveKey).toHaveBeenCalledTimes(2);
+      });
+
+      it('should drop entries on clearCache', async () => {
+         configureCache({ enabled: true, payloads: true });
+
+         await decrypt(encryptedData);
+         clearCache();
+         await decrypt(encryptedData);
+
+         expect(global.crypto.subtle.deriveKey).toHaveBeenCalledTimes(2);
+         expect(global.crypto.subtle.decrypt).toHaveBeenCalledTimes(2);
+      });
    });
 
    describe('mergeSecrets', () => {
@@ -80,6 +571,106 @@ describe('Secrets module', () => {
          expect(process.env.TEST_SECRET).toBe('test-value');
          expect(process.env.ANOTHER_SECRET).toBe('another-value');
       });
+
+      it('should stringify scalars and JSON-encode nested values for process.env', () => {
+         mergeSecrets(
+            { PORT: 8080, DEBUG: false, HOSTS: ['a', 'b'], DATABASE: { HOST: 'db' }, EMPTY: null },
+            EnvTarget.PROCESS,
+         );
+
+         expect(process.env.PORT).toBe('8080');
+         expect(process.env.DEBUG).toBe('false');
+         expect(process.env.HOSTS).toBe('["a","b"]');
+         expect(process.env.DATABASE).toBe('{"HOST":"db"}');
+         expect(process.env.EMPTY).toBe('');
+      });
+
+      it('should keep native types in import.meta.env', () => {
+         mergeSecrets({ NATIVE_PORT: 8080, NATIVE_DATABASE: { HOST: 'db' } }, EnvTarget.IMPORT_META);
+
+         expect(import.meta.env.NATIVE_PORT).toBe(8080);
+         expect(import.meta.env.NATIVE_DATABASE).toEqual({ HOST: 'db' });
+      });
+
+      it('should flatten nested objects into PARENT__CHILD keys', () => {
+         mergeSecrets({ DATABASE: { HOST: 'db', CREDENTIALS: { USER: 'app' } }, HOSTS: ['a'] }, EnvTarget.PROCESS, {
+            flatten: true,
+         });
+
+         expect(process.env.DATABASE__HOST).toBe('db');
+         expect(process.env.DATABASE__CREDENTIALS__USER).toBe('app');
+         expect(process.env.HOSTS).toBe('["a"]');
+         expect(process.env.DATABASE).toBeUndefined();
+      });
+
+      it('should flatten with a custom separator before filtering', () => {
+         const diff = mergeSecrets({ DATABASE: { HOST: 'db', PASSWORD: 'secret' } }, EnvTarget.PROCESS, {
+            flatten: '_',
+            exclude: ['*_PASSWORD'],
+            dryRun: true,
+         });
+
+         expect(diff.added).toEqual(['DATABASE_HOST']);
+      });
+
+      it('should keep existing values when override is false', () => {
+         process.env.TEST_SECRET = 'existing';
+
+         mergeSecrets({ TEST_SECRET: 'test-value', ANOTHER_SECRET: 'another-value' }, EnvTarget.PROCESS, {
+            override: false,
+         });
+
+         expect(process.env.TEST_SECRET).toBe('existing');
+         expect(process.env.ANOTHER_SECRET).toBe('another-value');
+      });
+
+      it('should only override whitelisted keys', () => {
+         process.env.DATABASE_URL = 'existing';
+         process.env.API_KEY = 'existing';
+
+         mergeSecrets({ DATABASE_URL: 'new', API_KEY: 'new' }, EnvTarget.PROCESS, { override: ['DATABASE_*'] });
+
+         expect(process.env.DATABASE_URL).toBe('new');
+         expect(process.env.API_KEY).toBe('existing');
+      });
+
+      it('should filter by prefix and strip it', () => {
+         mergeSecrets({ PUBLIC_API_URL: 'https://api.example.com', PRIVATE_TOKEN: 'secret' }, EnvTarget.PROCESS, {
+            prefix: 'PUBLIC_',
+            stripPrefix: true,
+         });
+
+         expect(process.env.API_URL).toBe('https://api.example.com');
+         expect(process.env.PUBLIC_API_URL).toBeUndefined();
+         expect(process.env.PRIVATE_TOKEN).toBeUndefined();
+      });
+
+      it('should apply include and exclude globs and add a prefix', () => {
+         mergeSecrets({ API_URL: 'a', API_SECRET: 'b', DATABASE_URL: 'c' }, EnvTarget.PROCESS, {
+            include: ['API_*'],
+            exclude: ['*_SECRET'],
+            addPrefix: 'VITE_',
+         });
+
+         expect(process.env.VITE_API_URL).toBe('a');
+         expect(process.env.VITE_API_SECRET).toBeUndefined();
+         expect(process.env.DATABASE_URL).toBeUndefined();
+      });
+
+      it('should return the diff without writing on a dry run', () => {
+         process.env.SAME = 'value';
+         process.env.CHANGED = 'old';
+         process.env.KEPT = 'old';
+
+         const diff = mergeSecrets({ SAME: 'value', CHANGED: 'new', KEPT: 'new', ADDED: 'new' }, EnvTarget.PROCESS, {
+            override: ['CHANGED'],
+            dryRun: true,
+         });
+
+         expect(diff).toEqual({ added: ['ADDED'], changed: ['CHANGED'], unchanged: ['SAME'], skipped: ['KEPT'] });
+         expect(process.env.CHANGED).toBe('old');
+         expect(process.env.ADDED).toBeUndefined();
+      });
    });
 
    describe('loadSecrets', () => {
@@ -101,6 +692,58 @@ describe('Secrets module', () => {
          expect(process.env.ANOTHER_SECRET).toBe('another-value');
       });
 
+      it('should pass merge options through and return the diff on a dry run', async () => {
+         const diff = await loadSecrets('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==', EnvTarget.PROCESS, {
+            dryRun: true,
+         });
+
+         expect(diff).toEqual({ added: ['TEST_SECRET'], changed: [], unchanged: [], skipped: [] });
+         expect(process.env.TEST_SECRET).toBeUndefined();
+      });
+
+      it('should interpolate references against the secrets and the target environment', async () => {
+         process.env.DB_HOST = 'db.internal';
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi
+            .fn()
+            .mockResolvedValue(
+               new TextEncoder().encode(
+                  JSON.stringify({ DB_USER: 'app', DATABASE_URL: 'postgres://${DB_USER}@${DB_HOST}' }),
+               ).buffer,
+            );
+
+         const secrets = await loadSecrets('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==', EnvTarget.PROCESS, {
+            interpolate: true,
+            schema: { DATABASE_URL: 'url' },
+         });
+
+         expect(secrets.DATABASE_URL).toBe('postgres://app@db.internal');
+         expect(process.env.DATABASE_URL).toBe('postgres://app@db.internal');
+      });
+
+      it('should validate against a schema and return typed secrets', async () => {
+         // biome-ignore lint/suspicious/noExplicitAny: Hard to type this correctly
+         (global.crypto.subtle.decrypt as any) = vi
+            .fn()
+            .mockResolvedValue(new TextEncoder().encode(JSON.stringify({ PORT: '8080' })).buffer);
+
+         const secrets = await loadSecrets('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==', EnvTarget.PROCESS, {
+            schema: { PORT: 'number' },
+         });
+
+         expect(secrets).toEqual({ PORT: 8080 });
+         expect(process.env.PORT).toBe('8080');
+      });
+
+      it('should throw when secrets fail schema validation', async () => {
+         await expect(
+            loadSecrets('base64:1000000:AQIDBAUG:CQoLDA0ODxARElM=:FRUWEQ==', EnvTarget.PROCESS, {
+               schema: { DATABASE_URL: 'url' },
+            }),
+         ).rejects.toThrow('DATABASE_URL is required');
+         expect(process.env.TEST_SECRET).toBeUndefined();
+      });
+
       it('should handle decryption errors gracefully', async () => {
          const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
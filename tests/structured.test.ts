@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+   clearCache,
+   decrypt,
+   encryptStructured,
+   generateMasterKey,
+   generateRecipientKeyPair,
+   inspect,
+   reencrypt,
+   verify,
+} from '../src/secrets';
+import { isDocument, parseDocument } from '../src/structured';
+
+const readDocument = (document: string) => JSON.parse(document);
+
+describe('structured documents', () => {
+   const payload = { API_KEY: 'test-api-key', PORT: 8080, FEATURES: { beta: true } };
+
+   beforeEach(() => {
+      vi.stubEnv('GITOPS_SECRETS_KEY_MODE', 'raw');
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+   });
+
+   afterEach(() => {
+      vi.unstubAllEnvs();
+      clearCache();
+   });
+
+   it('should keep key names readable and encrypt each value', async () => {
+      const document = await encryptStructured(payload);
+      const parsed = readDocument(document);
+
+      expect(Object.keys(parsed)).toEqual(['API_KEY', 'PORT', 'FEATURES', 'gitops-secrets']);
+      expect(parsed.API_KEY).toMatch(/^ENC\[AES-GCM,iv:[A-Za-z0-9+/=]+,data:[A-Za-z0-9+/=]+\]$/);
+      expect(document).not.toContain('test-api-key');
+      expect(parsed['gitops-secrets']).toEqual({
+         version: 1,
+         dataKey: expect.stringMatching(/^gs2:/),
+         mac: expect.any(String),
+      });
+      expect(document.split('\n')[1]).toMatch(/^ {2}"API_KEY": "ENC\[/);
+      expect(isDocument(document)).toBe(true);
+   });
+
+   it('should decrypt to the original payload, keeping value types', async () => {
+      const document = await encryptStructured(payload);
+
+      expect(JSON.parse(await decrypt(document))).toEqual(payload);
+   });
+
+   it('should only change the lines of changed secrets when given the previous document', async () => {
+      const first = await encryptStructured(payload);
+      const second = await encryptStructured(
+         { ...payload, PORT: 9090, DATABASE_URL: 'postgres://db' },
+         { previous: first },
+      );
+
+      const before = readDocument(first);
+      const after = readDocument(second);
+      expect(after.API_KEY).toBe(before.API_KEY);
+      expect(after.FEATURES).toBe(before.FEATURES);
+      expect(after.PORT).not.toBe(before.PORT);
+      expect(after['gitops-secrets'].dataKey).toBe(before['gitops-secrets'].dataKey);
+      expect(after['gitops-secrets'].mac).not.toBe(before['gitops-secrets'].mac);
+      expect(JSON.parse(await decrypt(second))).toEqual({ ...payload, PORT: 9090, DATABASE_URL: 'postgres://db' });
+   });
+
+   it('should write the same document when nothing changed', async () => {
+      const first = await encryptStructured(payload);
+
+      expect(await encryptStructured(payload, { previous: first })).toBe(first);
+   });
+
+   it('should start over when the previous document was written under another key', async () => {
+      const first = await encryptStructured(payload);
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+
+      const second = await encryptStructured(payload, { previous: first });
+
+      expect(readDocument(second).API_KEY).not.toBe(readDocument(first).API_KEY);
+      expect(JSON.parse(await decrypt(second))).toEqual(payload);
+   });
+
+   it('should use a new data key after a key rotation so the previous key cannot open the new document', async () => {
+      const previousKey = generateMasterKey();
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', previousKey);
+      const first = await encryptStructured(payload);
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', generateMasterKey());
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY_PREVIOUS', previousKey);
+
+      const second = await encryptStructured(payload, { previous: first });
+
+      expect(readDocument(second).API_KEY).not.toBe(readDocument(first).API_KEY);
+      expect(JSON.parse(await decrypt(second))).toEqual(payload);
+      clearCache();
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY', previousKey);
+      vi.stubEnv('GITOPS_SECRETS_MASTER_KEY_PREVIOUS', '');
+      await expect(decrypt(second)).rejects.toThrow();
+   });
+
+   it('should re-encrypt the data key but keep values when the metadata changes', async () => {
+      const first = await encryptStructured(payload, { metadata: { commit: 'abc123' } });
+      const second = await encryptStructured(payload, { previous: first, metadata: { commit: 'def456' } });
+
+      expect(readDocument(second).API_KEY).toBe(readDocument(first).API_KEY);
+      expect(readDocument(second)['gitops-secrets'].dataKey).not.toBe(readDocument(first)['gitops-secrets'].dataKey);
+      expect(inspect(second)).toMatchObject({ format: 'structured', kdf: 'none', metadata: { commit: 'def456' } });
+   });
+
+   it.each([
+      [
+         'a value is rolled back',
+         (document: Record<string, string>, previous: Record<string, string>) => {
+            document.PORT = previous.PORT;
+         },
+      ],
+      [
+         'values are swapped between keys',
+         (document: Record<string, string>) => {
+            [document.API_KEY, document.PORT] = [document.PORT, document.API_KEY];
+         },
+      ],
+      [
+         'a key is removed',
+         (document: Record<string, string>) => {
+            Reflect.deleteProperty(document, 'FEATURES');
+         },
+      ],
+   ])('should fail the MAC check when %s', async (_case, tamper) => {
+      const previous = await encryptStructured(payload);
+      const current = readDocument(await encryptStructured({ ...payload, PORT: 9090 }, { previous }));
+      tamper(current, readDocument(previous));
+
+      await expect(decrypt(JSON.stringify(current))).rejects.toThrow(
+         'Decryption failed: Structured document MAC mismatch. Keys or values were added, removed or changed',
+      );
+   });
+
+   it('should encrypt the data key for recipients', async () => {
+      const pair = await generateRecipientKeyPair();
+      const document = await encryptStructured(payload, { recipients: [pair.publicKey] });
+
+      expect(inspect(document).recipients).toHaveLength(1);
+      expect(JSON.parse(await decrypt(document, { privateKey: pair.privateKey }))).toEqual(payload);
+   });
+
+   it('should reject payloads using the reserved metadata key', async () => {
+      await expect(encryptStructured({ 'gitops-secrets': 'x' })).rejects.toThrow(
+         "'gitops-secrets' is reserved for the metadata of structured documents",
+      );
+   });
+
+   it('should reject values that are not encrypted', async () => {
+      const document = readDocument(await encryptStructured(payload));
+      document.API_KEY = 'plaintext';
+
+      expect(() => parseDocument(JSON.stringify(document))).toThrow(
+         "Structured document invalid. The value of 'API_KEY' is not encrypted",
+      );
+   });
+
+   it('should re-encrypt under a new data key and verify', async () => {
+      const document = await encryptStructured(payload, { metadata: { environment: 'production' } });
+      const rotated = await reencrypt(document);
+
+      expect(readDocument(rotated)['gitops-secrets'].dataKey).not.toBe(
+         readDocument(document)['gitops-secrets'].dataKey,
+      );
+      expect(inspect(rotated).metadata).toEqual({ environment: 'production' });
+      expect(await verify(rotated, { require: ['API_KEY'] })).toMatchObject({
+         valid: true,
+         keys: ['API_KEY', 'PORT', 'FEATURES'],
+      });
+      await expect(decrypt(rotated, { environment: 'staging' })).rejects.toThrow(
+         "Cipher text was built for environment 'production', expected 'staging'",
+      );
+   });
+});
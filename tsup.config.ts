@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-   entry: ['src/index.ts', 'src/no-fs.ts'],
+   entry: ['src/index.ts', 'src/no-fs.ts', 'src/plugins.ts', 'src/bin.ts'],
    outDir: 'dist',
    format: ['esm', 'cjs'],
    dts: true,